@@ -1,19 +1,35 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useCurrentDomain } from './hooks/useCurrentDomain';
 import { useMemos } from './hooks/useMemos';
-import type { MemoMessage } from './types';
-import CodeMirror from '@uiw/react-codemirror';
+import { useSearch } from './hooks/useSearch';
+import { useSyncStatus } from './hooks/useSyncStatus';
+import { usePanelIntents } from './hooks/usePanelIntents';
+import { useTemplates } from './hooks/useTemplates';
+import { useAllMemos } from './hooks/useAllMemos';
+import { useAttachmentUrls } from './hooks/useAttachmentUrls';
+import type { Memo, MemoMessage, NoteTemplate, PanelIntent, ViewMode } from './types';
+import type { SearchResult } from './utils/search';
+import { parseFrontMatter } from './utils/frontMatter';
+import CodeMirror, { EditorView } from '@uiw/react-codemirror';
 import { markdown, markdownLanguage } from '@codemirror/lang-markdown';
 import { languages } from '@codemirror/language-data';
 import { oneDark } from '@codemirror/theme-one-dark';
 import { marked } from 'marked';
 import DOMPurify from 'dompurify';
 import 'github-markdown-css/github-markdown.css';
-import { clsx } from 'clsx';
-import { twMerge } from 'tailwind-merge';
-
-// Helper for classes
-const cn = (...inputs: (string | undefined | null | false)[]) => twMerge(clsx(inputs));
+import { cn } from './utils/cn';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ReminderButton } from './components/ReminderButton';
+import { TemplatePicker } from './components/TemplatePicker';
+import { Backlinks } from './components/Backlinks';
+import { TaskDashboard } from './components/TaskDashboard';
+import { ScreenshotCropper } from './components/ScreenshotCropper';
+import { downloadFile, downloadMarkdownZip, sanitizeFileName } from './utils/markdownExport';
+import { captureSelection, formatSelectionQuote } from './utils/selection';
+import { getTemplateForPage, usesSelection } from './utils/templates';
+import { getBacklinks, resolveWikiLink, wikiLinkCompletions, wikiLinkMarkedExtension } from './utils/wikiLinks';
+import { getImageFiles, replaceAttachmentRefs, saveImages } from './utils/attachments';
+import { captureScreenshot, cropScreenshot, formatScreenshotBlock, type CropRect, type Screenshot } from './utils/screenshot';
 
 interface MenuItem {
   label: string;
@@ -77,45 +93,100 @@ const ALERT_TITLES: Record<string, string> = {
   caution: 'Caution'
 };
 
-const renderPreview = (content: string) => {
-  const frontMatterRegex = /^---\n([\s\S]+?)\n---/;
-  const match = content.match(frontMatterRegex);
+const VIEW_MODE_LABELS: Record<ViewMode, string> = {
+  page: 'View Page Notes',
+  domain: 'View Domain Notes',
+  all: 'View All Notes',
+  reminders: 'View Reminders',
+  trash: 'View Trash'
+};
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// DOMPurify's default list plus blob:, for the object URLs of attachments
+const ALLOWED_URI_REGEXP = /^(?:(?:(?:f|ht)tps?|mailto|tel|callto|sms|cid|xmpp|matrix|blob):|[^a-z]|[a-z+.-]+(?:[^a-z+.\-:]|$))/i;
+
+// `attachmentUrls` maps attachment IDs to object URLs; links to attachments
+// that aren't loaded (yet) are dropped by DOMPurify
+const renderPreview = (content: string, attachmentUrls: Map<string, string>) => {
+  const { entries, body, hasFrontMatter } = parseFrontMatter(content);
 
   let processedContent = content;
 
-  if (match) {
-    const frontMatter = match[1];
-    const rows = frontMatter.split('\n').filter(line => line.trim() !== '');
+  if (hasFrontMatter) {
     let tableHtml = '<table class="front-matter-table mb-4 border-collapse w-full text-sm"><tbody>';
 
-    rows.forEach(row => {
-      const parts = row.split(':');
-      if (parts.length >= 2) {
-        const key = parts[0].trim();
-        const value = parts.slice(1).join(':').trim();
-        tableHtml += `<tr class="border-b border-gray-200 dark:border-gray-700"><td class="py-1 pr-2 font-semibold text-gray-600 dark:text-gray-400 select-none w-24">${key}</td><td class="py-1 text-gray-800 dark:text-gray-200 break-all">${value}</td></tr>`;
-      }
+    entries.forEach(({ key, value }) => {
+      const valueHtml = Array.isArray(value)
+        ? value.map(item => `<code class="mr-1">${escapeHtml(item)}</code>`).join('')
+        : escapeHtml(value).replace(/\n/g, '<br>');
+      tableHtml += `<tr class="border-b border-gray-200 dark:border-gray-700"><td class="py-1 pr-2 font-semibold text-gray-600 dark:text-gray-400 select-none w-24">${escapeHtml(key)}</td><td class="py-1 text-gray-800 dark:text-gray-200 break-all">${valueHtml}</td></tr>`;
     });
 
     tableHtml += '</tbody></table>';
-    processedContent = content.replace(frontMatterRegex, tableHtml);
+    processedContent = `${tableHtml}\n\n${body}`;
   }
 
-  const rawMarkup = marked.parse(processedContent);
+  const rawMarkup = replaceAttachmentRefs(marked.parse(processedContent) as string, (id) => attachmentUrls.get(id) ?? null);
   return {
-    __html: DOMPurify.sanitize(rawMarkup as string, {
+    __html: DOMPurify.sanitize(rawMarkup, {
       ADD_ATTR: ['target', 'rel'],
+      ALLOWED_URI_REGEXP,
     })
   };
 };
 
+// Pasted or dropped images are stored as attachments and linked where they land
+const insertImages = (view: EditorView, files: File[], pos: number) => {
+  saveImages(files).then((markdown) => {
+    const at = Math.min(pos, view.state.doc.length);
+    view.dispatch({ changes: { from: at, insert: markdown }, selection: { anchor: at + markdown.length } });
+    view.focus();
+  }).catch((err) => console.error('Failed to store images', err));
+};
+
+const imageDropHandlers = EditorView.domEventHandlers({
+  paste: (event, view) => {
+    const files = getImageFiles(event.clipboardData);
+    if (files.length === 0 || view.state.readOnly) return false;
+    event.preventDefault();
+    insertImages(view, files, view.state.selection.main.head);
+    return true;
+  },
+  drop: (event, view) => {
+    const files = getImageFiles(event.dataTransfer);
+    if (files.length === 0 || view.state.readOnly) return false;
+    event.preventDefault();
+    insertImages(view, files, view.posAtCoords({ x: event.clientX, y: event.clientY }) ?? view.state.selection.main.head);
+    return true;
+  },
+});
+
+const SEARCH_SHORTCUT_LABEL = /Mac/.test(navigator.userAgent) ? '⌘K' : 'Ctrl+K';
+
+// Alt+[ and Alt+] step through the note list, Ctrl/Cmd+K jumps to search
+const panelShortcut = (e: KeyboardEvent): PanelIntent | null => {
+  const mod = e.ctrlKey || e.metaKey;
+  if (e.shiftKey) return null;
+  // e.code, because Alt changes the typed character on macOS
+  if (e.altKey && !mod && e.code === 'BracketRight') return { type: 'SELECT_NOTE', offset: 1 };
+  if (e.altKey && !mod && e.code === 'BracketLeft') return { type: 'SELECT_NOTE', offset: -1 };
+  if (mod && !e.altKey && e.key.toLowerCase() === 'k') return { type: 'FOCUS_SEARCH' };
+  return null;
+};
+
 function App() {
-  const { domain, url, title } = useCurrentDomain();
-  const [viewMode, setViewMode] = useState<'domain' | 'all'>(() => {
+  const { domain, domainGroup, url, title } = useCurrentDomain();
+  const [viewMode, setViewMode] = useState<ViewMode>(() => {
     const saved = localStorage.getItem('viewMode');
-    return (saved === 'all' || saved === 'domain') ? saved : 'domain';
+    return (saved === 'all' || saved === 'domain' || saved === 'page' || saved === 'reminders' || saved === 'trash') ? saved : 'domain';
   });
-  const { memos, activeMemo, setActiveMemoId, createMemo, updateMemo, deleteMemo } = useMemos(domain, url, title, viewMode);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const { memos, activeMemo, setActiveMemoId, createMemo, appendToMemo, updateMemo, deleteMemo, restoreMemo, deleteMemoPermanently, toggleUrlSpecific, setReminder, renameLinks, toggleTask } = useMemos(domain, domainGroup, url, title, viewMode, tagFilter);
   const [mode, setMode] = useState<'edit' | 'preview'>(() => {
     const saved = localStorage.getItem('mode');
     return (saved === 'edit' || saved === 'preview') ? saved : 'edit';
@@ -141,7 +212,26 @@ function App() {
   const [fontSize, setFontSize] = useState(16);
 
   // UI State
+  // Ticks every minute so reminders show as overdue on time
+  const [now, setNow] = useState(() => Date.now());
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [templatePickerOpen, setTemplatePickerOpen] = useState(false);
+  const [tasksOpen, setTasksOpen] = useState(false);
+  const [screenshot, setScreenshot] = useState<Screenshot | null>(null);
+  const templates = useTemplates();
+  const allMemos = useAllMemos();
+  const noteTitlesRef = useRef<string[]>([]);
+  // Title of the open note before the current rename, see commitTitleChange
+  const titleBeforeEditRef = useRef<{ memoId: string; title: string } | null>(null);
+
+  // Search State
+  const [searchQuery, setSearchQuery] = useState('');
+  const searchResults = useSearch(searchQuery);
+  const syncStatus = useSyncStatus();
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const editorViewRef = useRef<EditorView | null>(null);
+  const pendingJumpRef = useRef<{ memoId: string; from: number; to: number } | null>(null);
 
   // Sidebar Persistence
   useEffect(() => {
@@ -156,6 +246,11 @@ function App() {
     localStorage.setItem('mode', mode);
   }, [mode]);
 
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
   useEffect(() => {
     localStorage.setItem('sidebarWidth', String(sidebarWidth));
   }, [sidebarWidth]);
@@ -202,9 +297,9 @@ function App() {
     const handler = (e: MediaQueryListEvent) => setIsDarkMode(e.matches);
     match.addEventListener('change', handler);
 
-    // Force links to open in new tab
+    // Force links to open in new tab; links to other notes stay in the panel
     DOMPurify.addHook('afterSanitizeAttributes', (node) => {
-      if (node.tagName === 'A') {
+      if (node.tagName === 'A' && !node.hasAttribute('data-wiki-link')) {
         node.setAttribute('target', '_blank');
         node.setAttribute('rel', 'noopener noreferrer');
       }
@@ -212,6 +307,7 @@ function App() {
 
     // Configure marked with GitHub Alerts support
     marked.use({
+      extensions: [wikiLinkMarkedExtension],
       renderer: {
         // eslint-disable-next-line react-hooks/unsupported-syntax, @typescript-eslint/no-explicit-any
         blockquote(this: any, { tokens }: any) {
@@ -230,6 +326,10 @@ function App() {
             `;
           }
           return `<blockquote>${body}</blockquote>`;
+        },
+        // Not disabled, so tasks can be checked off in the preview
+        checkbox({ checked }) {
+          return `<input type="checkbox" class="task-list-item-checkbox"${checked ? ' checked=""' : ''}> `;
         }
       }
     });
@@ -317,33 +417,213 @@ function App() {
     });
   }, [mode, activeMemo?.content, activeMemo]);
 
-  // Message Handling
-  useEffect(() => {
-    const handleMessage = (message: MemoMessage) => {
-      if (message.type === 'OPEN_MEMO' && message.memoId) {
-        setActiveMemoId(message.memoId);
-      } else if (message.type === 'CREATE_MEMO') {
-        createMemo();
+  // Quotes the page's selection when the note's template has a {{selection}}
+  const startNote = async (template?: NoteTemplate) => {
+    if (!url) return;
+    const noteTemplate = template || await getTemplateForPage(url);
+    const [tab] = usesSelection(noteTemplate) ? await chrome.tabs.query({ active: true, currentWindow: true }) : [];
+    const captured = tab?.id ? await captureSelection(tab.id) : null;
+    if (!captured) {
+      await createMemo('', undefined, noteTemplate);
+      return;
+    }
+    await createMemo(formatSelectionQuote(captured.text, tab.url || url, tab.title), captured.anchor ? [captured.anchor] : undefined, noteTemplate);
+  };
+
+  // Captures the page as it is now; cropping and inserting happen in ScreenshotCropper
+  const startScreenshot = async () => {
+    try {
+      setScreenshot(await captureScreenshot());
+    } catch (err) {
+      console.error('Failed to capture the page', err);
+      alert(`Could not capture this page: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  // Added to the end of the open note, or to a new note for the page
+  const insertScreenshot = async (shot: Screenshot, crop: CropRect | null) => {
+    setScreenshot(null);
+    try {
+      const image = await saveImages([await cropScreenshot(shot, crop)]);
+      await appendToMemo(isTrashed ? undefined : activeMemo?.id, formatScreenshotBlock(image, shot));
+    } catch (err) {
+      console.error('Failed to insert the screenshot', err);
+    }
+  };
+
+  // Requests from the context menu, page highlights and keyboard shortcuts
+  const handlePanelIntent = async (intent: PanelIntent) => {
+    if (intent.type === 'OPEN_MEMO') {
+      setActiveMemoId(intent.memoId);
+    } else if (intent.type === 'CREATE_MEMO') {
+      if (intent.text) {
+        await createMemo(intent.text);
+      } else {
+        await startNote();
       }
+    } else if (intent.type === 'ADD_SELECTION') {
+      await appendToMemo(intent.memoId, formatSelectionQuote(intent.selection, intent.url, intent.title), intent.anchor);
+    } else if (intent.type === 'TOGGLE_PREVIEW') {
+      setMode((current) => (current === 'edit' ? 'preview' : 'edit'));
+    } else if (intent.type === 'SELECT_NOTE') {
+      selectAdjacentNote(intent.offset);
+    } else if (intent.type === 'CAPTURE_SCREENSHOT') {
+      await startScreenshot();
+    } else if (intent.type === 'FOCUS_SEARCH') {
+      setSidebarOpen(true);
+      // The input only exists once the sidebar has rendered
+      requestAnimationFrame(() => searchInputRef.current?.select());
+    }
+  };
+
+  // Creating a note needs the page, so intents wait until the current tab is known
+  usePanelIntents(handlePanelIntent, url !== null);
+
+  const handlePanelIntentRef = useRef(handlePanelIntent);
+  useEffect(() => {
+    handlePanelIntentRef.current = handlePanelIntent;
+  });
+
+  // In-panel shortcuts, picked to stay clear of the editor's own key bindings
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const intent = panelShortcut(e);
+      if (!intent) return;
+      e.preventDefault();
+      handlePanelIntentRef.current(intent);
     };
+    // Capture phase, so the shortcuts also work while the editor has focus
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, []);
 
-    if (typeof chrome !== 'undefined' && chrome.runtime) {
-      chrome.runtime.onMessage.addListener(handleMessage);
-      return () => chrome.runtime.onMessage.removeListener(handleMessage);
-    }
-  }, [setActiveMemoId, createMemo]);
+  const isTrashed = !!activeMemo?.deletedAt;
+
+  const attachmentUrls = useAttachmentUrls(activeMemo?.content);
 
   const previewHtml = useMemo(() => {
     if (!activeMemo) return { __html: '' };
-    return renderPreview(activeMemo.content);
-  }, [activeMemo]);
+    return renderPreview(activeMemo.content, attachmentUrls);
+  }, [activeMemo, attachmentUrls]);
+
+  // Titles offered after `[[` in the editor, most recently edited first
+  useEffect(() => {
+    const sorted = [...allMemos].sort((a, b) => b.updatedAt - a.updatedAt);
+    noteTitlesRef.current = [...new Set(sorted.map(memo => memo.title.trim()).filter(title => title !== ''))];
+  }, [allMemos]);
+
+  // Stable, so the editor isn't reconfigured on every render
+  const editorExtensions = useMemo(() => [
+    markdown({ base: markdownLanguage, codeLanguages: languages }),
+    markdownLanguage.data.of({ autocomplete: wikiLinkCompletions(() => noteTitlesRef.current) }),
+    imageDropHandlers,
+  ], []);
+
+  const backlinks = useMemo(() => (activeMemo ? getBacklinks(activeMemo, allMemos) : []), [activeMemo, allMemos]);
+
+  // Links to missing notes look different and do nothing
+  useEffect(() => {
+    if (mode !== 'preview' || !previewRef.current) return;
+    previewRef.current.querySelectorAll<HTMLAnchorElement>('a[data-wiki-link]').forEach((link) => {
+      const found = resolveWikiLink(link.dataset.wikiLink || '', allMemos, activeMemo);
+      link.classList.toggle('wiki-link-missing', !found);
+      link.title = found ? `${found.title} (${found.domain})` : 'No note with this title';
+    });
+  }, [mode, previewHtml, allMemos, activeMemo]);
+
+  // Notes in the trash are read-only
+  useEffect(() => {
+    if (mode !== 'preview' || !previewRef.current) return;
+    previewRef.current.querySelectorAll<HTMLInputElement>('input.task-list-item-checkbox').forEach((box) => {
+      box.disabled = isTrashed;
+    });
+  }, [mode, previewHtml, isTrashed]);
+
+  const handlePreviewClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const box = (e.target as HTMLElement).closest<HTMLInputElement>('input.task-list-item-checkbox');
+    if (box && activeMemo && previewRef.current) {
+      // The nth checkbox is the nth task, see getTasks
+      const index = [...previewRef.current.querySelectorAll('input.task-list-item-checkbox')].indexOf(box);
+      toggleTask(activeMemo, index).catch((err) => console.error('Failed to update task', err));
+      return;
+    }
+    const link = (e.target as HTMLElement).closest<HTMLAnchorElement>('a[data-wiki-link]');
+    if (!link) return;
+    e.preventDefault();
+    const target = resolveWikiLink(link.dataset.wikiLink || '', allMemos, activeMemo);
+    if (target) openMemo(target);
+  };
+
+  // Select a search match once the editor shows the right note
+  const applyPendingJump = useCallback(() => {
+    const jump = pendingJumpRef.current;
+    const view = editorViewRef.current;
+    if (!jump || !view || activeMemo?.id !== jump.memoId) return;
+
+    const length = view.state.doc.length;
+    view.dispatch({
+      selection: { anchor: Math.min(jump.from, length), head: Math.min(jump.to, length) },
+      scrollIntoView: true,
+    });
+    view.focus();
+    pendingJumpRef.current = null;
+  }, [activeMemo?.id]);
+
+  useEffect(() => {
+    if (mode === 'edit') applyPendingJump();
+  }, [mode, applyPendingJump]);
+
+  // The note may be on another domain; fall back to the all-notes list when needed
+  const openMemo = (memo: Memo) => {
+    if (!memos.some(m => m.id === memo.id)) {
+      setTagFilter(null);
+      setViewMode('all');
+    }
+    setActiveMemoId(memo.id);
+  };
+
+  const openSearchResult = (result: SearchResult) => {
+    openMemo(result.memo);
+    setMode('edit');
+    pendingJumpRef.current = result.matchFrom !== null && result.matchTo !== null
+      ? { memoId: result.memo.id, from: result.matchFrom, to: result.matchTo }
+      : null;
+    if (activeMemo?.id === result.memo.id && mode === 'edit') applyPendingJump();
+  };
+
+  // Moves through the search results while searching, otherwise the note list
+  const selectAdjacentNote = (offset: 1 | -1) => {
+    const searching = searchQuery.trim() !== '';
+    const ids = searching ? searchResults.map(result => result.memo.id) : memos.map(memo => memo.id);
+    if (ids.length === 0) return;
+    const current = activeMemo ? ids.indexOf(activeMemo.id) : -1;
+    const next = current === -1 ? (offset === 1 ? 0 : ids.length - 1) : Math.min(Math.max(current + offset, 0), ids.length - 1);
+    if (searching) {
+      openSearchResult(searchResults[next]);
+    } else {
+      setActiveMemoId(ids[next]);
+    }
+  };
 
   const handleTitleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (activeMemo) {
+      if (titleBeforeEditRef.current?.memoId !== activeMemo.id) {
+        titleBeforeEditRef.current = { memoId: activeMemo.id, title: activeMemo.title };
+      }
       updateMemo({ ...activeMemo, title: e.target.value, updatedAt: Date.now() });
     }
   };
 
+  // Links follow the new title once editing is done; renaming on every
+  // keystroke would point them at half-typed titles along the way
+  const commitTitleChange = () => {
+    const before = titleBeforeEditRef.current;
+    titleBeforeEditRef.current = null;
+    if (activeMemo && before?.memoId === activeMemo.id && before.title !== activeMemo.title) {
+      renameLinks(activeMemo, before.title).catch((err) => console.error('Failed to update links', err));
+    }
+  };
+
   const handleContentChange = useCallback((val: string) => {
     if (activeMemo) {
       updateMemo({ ...activeMemo, content: val, updatedAt: Date.now() });
@@ -352,30 +632,21 @@ function App() {
 
   const confirmDelete = () => {
     if (activeMemo) {
-      deleteMemo(activeMemo.id);
+      deleteMemoPermanently(activeMemo.id);
       setDeleteConfirmOpen(false);
     }
   };
 
-  const sanitizeFileName = (name: string) => {
-    return name.replace(/[<>:"/\\|?*]/g, '_');
-  };
-
   const handleDownloadMarkdown = () => {
     if (!activeMemo) return;
     const fileName = `${sanitizeFileName(activeMemo.title || 'Untitled')}.md`;
-    const blob = new Blob([activeMemo.content], { type: 'text/markdown;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const downloadAnchorNode = document.createElement('a');
-    downloadAnchorNode.setAttribute("href", url);
-    downloadAnchorNode.setAttribute("download", fileName);
-    document.body.appendChild(downloadAnchorNode);
-    downloadAnchorNode.click();
-    downloadAnchorNode.remove();
-    URL.revokeObjectURL(url);
+    downloadFile(activeMemo.content, fileName, 'text/markdown;charset=utf-8');
   };
 
-
+  const handleExportList = () => {
+    const label = tagFilter ? `tag-${tagFilter}` : viewMode === 'all' ? 'website-notes' : (domainGroup || domain || 'notes');
+    downloadMarkdownZip(memos, label).catch((err) => console.error('Markdown export failed', err));
+  };
 
   const getFontStyle = (): React.CSSProperties => {
     const style: React.CSSProperties & Record<string, string> = {
@@ -387,6 +658,8 @@ function App() {
     return style;
   };
 
+  const sidebarTitle = tagFilter ? `#${tagFilter}` : viewMode === 'trash' ? 'Trash' : viewMode === 'reminders' ? 'Reminders' : viewMode === 'all' ? 'All Notes' : viewMode === 'page' ? 'This Page' : (domainGroup || domain || 'No context');
+
   if (!domain) {
     return (
       <div className="flex items-center justify-center h-screen bg-gray-100 dark:bg-gray-900 text-gray-500 p-4 text-center">
@@ -408,20 +681,55 @@ function App() {
         style={{ width: sidebarOpen ? sidebarWidth : 0 }}
       >
         <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-800">
-          <h2 className="font-bold text-sm truncate" style={{ width: Math.max(0, sidebarWidth - 64) }} title={viewMode === 'all' ? 'All Notes' : (domain || '')}>
-            {viewMode === 'all' ? 'All Notes' : (domain || 'No context')}
+          <h2 className="font-bold text-sm truncate flex items-center gap-1" style={{ width: Math.max(0, sidebarWidth - 64) }} title={viewMode === 'page' && !tagFilter ? (url || '') : sidebarTitle}>
+            <span className="truncate">{sidebarTitle}</span>
+            {syncStatus.state === 'syncing' && (
+              <span className="shrink-0 w-2 h-2 rounded-full bg-blue-500 animate-pulse" title="Syncing…" />
+            )}
+            {tagFilter && (
+              <button
+                onClick={() => setTagFilter(null)}
+                className="shrink-0 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 font-normal"
+                title="Clear tag filter"
+              >
+                ✕
+              </button>
+            )}
           </h2>
           <KebabMenu
             items={[
-              {
+              // A new note has no reminder yet, so it wouldn't show up in the reminders view
+              ...(viewMode !== 'trash' && viewMode !== 'reminders' ? [{
                 label: "New Note",
                 icon: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="12" y1="5" x2="12" y2="19"></line><line x1="5" y1="12" x2="19" y2="12"></line></svg>,
-                onClick: createMemo
-              },
+                onClick: () => startNote()
+              }] : []),
+              ...(viewMode !== 'trash' && viewMode !== 'reminders' && templates.length > 0 ? [{
+                label: "New Note from Template…",
+                icon: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline><line x1="12" y1="18" x2="12" y2="12"></line><line x1="9" y1="15" x2="15" y2="15"></line></svg>,
+                onClick: () => setTemplatePickerOpen(true)
+              }] : []),
+              ...(viewMode !== 'trash' && memos.length > 0 ? [{
+                label: "Export as Markdown (ZIP)",
+                icon: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>,
+                onClick: handleExportList
+              }] : []),
+              ...(['page', 'domain', 'all', 'reminders', 'trash'] as const).filter(m => m !== viewMode).map(m => ({
+                label: VIEW_MODE_LABELS[m],
+                icon: m === 'trash'
+                  ? <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path></svg>
+                  : m === 'reminders'
+                  ? <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 8A6 6 0 0 0 6 8c0 7-3 9-3 9h18s-3-2-3-9"></path><path d="M13.73 21a2 2 0 0 1-3.46 0"></path></svg>
+                  : <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"></circle><line x1="2" y1="12" x2="22" y2="12"></line><path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z"></path></svg>,
+                onClick: () => {
+                  setTagFilter(null);
+                  setViewMode(m);
+                }
+              })),
               {
-                label: viewMode === 'all' ? "View Domain Notes" : "View All Notes",
-                icon: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"></circle><line x1="2" y1="12" x2="22" y2="12"></line><path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z"></path></svg>,
-                onClick: () => setViewMode(viewMode === 'all' ? 'domain' : 'all')
+                label: "Open Tasks",
+                icon: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="9 11 12 14 22 4"></polyline><path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11"></path></svg>,
+                onClick: () => setTasksOpen(true)
               },
               {
                 label: "Settings",
@@ -432,25 +740,122 @@ function App() {
           />
         </div>
 
-        <div className="flex-1 overflow-y-auto">
-          {memos.map(memo => (
-            <div
-              key={memo.id}
-              onClick={() => setActiveMemoId(memo.id)}
-              className={cn("p-3 cursor-pointer border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800", activeMemo?.id === memo.id && "bg-blue-50 dark:bg-blue-900/20 border-l-4 border-l-blue-500")}
+        {(syncStatus.state === 'error' || syncStatus.state === 'offline' || (syncStatus.state === 'idle' && !!syncStatus.skipped)) && (
+          <div className={cn(
+            "px-3 py-2 border-b text-xs flex items-start gap-2",
+            syncStatus.state === 'error'
+              ? "border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300"
+              : "border-amber-200 dark:border-amber-900 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300"
+          )}>
+            <span className="flex-1 break-words">
+              {syncStatus.state === 'error'
+                ? `Sync failed: ${syncStatus.error}`
+                : syncStatus.state === 'offline'
+                  ? `Offline: ${syncStatus.pending || 0} ${syncStatus.pending === 1 ? 'change' : 'changes'} waiting to sync.`
+                  : `${syncStatus.skipped} ${syncStatus.skipped === 1 ? 'note' : 'notes'} not synced: ${syncStatus.error}`}
+            </span>
+            <button
+              onClick={() => chrome.runtime.sendMessage({ type: 'SYNC_NOW' } satisfies MemoMessage)}
+              className="shrink-0 font-medium hover:underline"
             >
-              <div className="font-medium text-sm truncate">{memo.title || "Untitled"}</div>
-              <div className="flex justify-between items-center mt-1">
-                <div className="text-[10px] text-gray-400 truncate flex-1 mr-2">{viewMode === 'all' ? memo.domain : new Date(memo.updatedAt).toLocaleDateString()}</div>
-                {viewMode === 'all' && <div className="text-[10px] text-gray-300">{new Date(memo.updatedAt).toLocaleDateString()}</div>}
-              </div>
-            </div>
-          ))}
-          {memos.length === 0 && (
-            <div className="p-4 text-center text-gray-400 text-sm">No notes found.</div>
-          )}
+              Retry
+            </button>
+          </div>
+        )}
+
+        <div className="p-2 border-b border-gray-200 dark:border-gray-700">
+          <input
+            ref={searchInputRef}
+            type="search"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setSearchQuery('');
+            }}
+            placeholder={`Search all notes (${SEARCH_SHORTCUT_LABEL})`}
+            className="w-full px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
         </div>
 
+        {searchQuery.trim() ? (
+          <div className="flex-1 overflow-y-auto">
+            {searchResults.map(result => (
+              <div
+                key={result.memo.id}
+                onClick={() => openSearchResult(result)}
+                className={cn("p-3 cursor-pointer border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800", activeMemo?.id === result.memo.id && "bg-blue-50 dark:bg-blue-900/20 border-l-4 border-l-blue-500")}
+              >
+                <div className="font-medium text-sm truncate">{result.memo.title || "Untitled"}</div>
+                <div className="text-[10px] text-gray-400 truncate">{result.memo.domain}</div>
+                <div className="text-xs text-gray-600 dark:text-gray-400 mt-1 line-clamp-3 break-words">
+                  {result.snippet.map((segment, i) => (
+                    segment.highlight
+                      ? <mark key={i} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm">{segment.text}</mark>
+                      : <span key={i}>{segment.text}</span>
+                  ))}
+                </div>
+              </div>
+            ))}
+            {searchResults.length === 0 && (
+              <div className="p-4 text-center text-gray-400 text-sm">No matching notes.</div>
+            )}
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto">
+            {memos.map(memo => (
+              <div
+                key={memo.id}
+                onClick={() => setActiveMemoId(memo.id)}
+                className={cn("p-3 cursor-pointer border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800", activeMemo?.id === memo.id && "bg-blue-50 dark:bg-blue-900/20 border-l-4 border-l-blue-500")}
+              >
+                <div className="font-medium text-sm truncate flex items-center gap-1">
+                  {memo.isUrlSpecific && (
+                    <span title={memo.url} className="shrink-0 text-blue-500">
+                      <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"></path><path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"></path></svg>
+                    </span>
+                  )}
+                  <span className="truncate">{memo.title || "Untitled"}</span>
+                </div>
+                <div className="flex justify-between items-center mt-1">
+                  <div className="text-[10px] text-gray-400 truncate flex-1 mr-2">{viewMode === 'all' || viewMode === 'trash' || viewMode === 'reminders' || tagFilter ? memo.domain : new Date(memo.updatedAt).toLocaleDateString()}</div>
+                  {memo.deletedAt
+                    ? <div className="text-[10px] text-gray-300">Deleted {new Date(memo.deletedAt).toLocaleDateString()}</div>
+                    : viewMode === 'reminders' && memo.remindAt !== undefined
+                    ? <div className={cn("text-[10px] shrink-0", memo.remindAt <= now ? "text-red-500" : "text-amber-600 dark:text-amber-400")}>
+                        {new Date(memo.remindAt).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })}
+                      </div>
+                    : (viewMode === 'all' || tagFilter) && <div className="text-[10px] text-gray-300">{new Date(memo.updatedAt).toLocaleDateString()}</div>}
+                </div>
+                {memo.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {memo.tags.map(tag => (
+                      <button
+                        key={tag}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setTagFilter(tag);
+                        }}
+                        className={cn(
+                          "text-[10px] px-1.5 rounded-full border",
+                          tag.toLowerCase() === tagFilter?.toLowerCase()
+                            ? "bg-blue-500 border-blue-500 text-white"
+                            : "border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+                        )}
+                        title={`Show notes tagged #${tag}`}
+                      >
+                        #{tag}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+            {memos.length === 0 && (
+              <div className="p-4 text-center text-gray-400 text-sm">No notes found.</div>
+            )}
+          </div>
+        )}
+
         {/* Resize Handle */}
         <div
           className="absolute right-0 top-0 w-1 h-full cursor-col-resize hover:bg-blue-500/50 transition-colors z-50"
@@ -474,12 +879,56 @@ function App() {
                 type="text"
                 value={activeMemo.title}
                 onChange={handleTitleChange}
+                onBlur={commitTitleChange}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur();
+                }}
+                readOnly={isTrashed}
                 className="bg-transparent font-semibold focus:outline-none text-gray-800 dark:text-gray-100 w-full min-w-0"
                 placeholder="Note Title"
               />
             )}
           </div>
           <div className="flex items-center gap-2 shrink-0 relative">
+            {activeMemo && isTrashed && (
+              <button
+                onClick={() => restoreMemo(activeMemo.id)}
+                className="text-xs font-medium px-2 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white"
+                title="Move this note out of the trash"
+              >
+                Restore
+              </button>
+            )}
+            {!isTrashed && (
+              <button
+                onClick={() => startScreenshot()}
+                className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+                title={activeMemo ? 'Add a screenshot of the page to this note' : 'Start a note with a screenshot of the page'}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M23 19a2 2 0 0 1-2 2H3a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h4l2-3h6l2 3h4a2 2 0 0 1 2 2z"></path><circle cx="12" cy="13" r="4"></circle></svg>
+              </button>
+            )}
+            {activeMemo && !isTrashed && (
+              <ReminderButton
+                remindAt={activeMemo.remindAt}
+                isOverdue={activeMemo.remindAt !== undefined && activeMemo.remindAt <= now}
+                onChange={(date) => setReminder(activeMemo, date)}
+              />
+            )}
+            {activeMemo && !isTrashed && (
+              <button
+                onClick={() => toggleUrlSpecific(activeMemo)}
+                className={cn(
+                  "text-xs font-medium px-2 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700",
+                  activeMemo.isUrlSpecific
+                    ? "bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300"
+                    : "bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300"
+                )}
+                title={activeMemo.isUrlSpecific ? `Only shown on ${activeMemo.url}` : `Shown on every page of ${activeMemo.domain}`}
+              >
+                {activeMemo.isUrlSpecific ? 'Page' : 'Domain'}
+              </button>
+            )}
             <button
               onClick={() => setMode(mode === 'edit' ? 'preview' : 'edit')}
               className="text-xs font-medium px-2 py-1 rounded bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
@@ -494,11 +943,21 @@ function App() {
                     icon: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>,
                     onClick: handleDownloadMarkdown
                   },
-                  {
-                    label: "Delete Note",
+                  ...(isTrashed ? [] : [{
+                    label: "History",
+                    icon: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"></circle><polyline points="12 6 12 12 16 14"></polyline></svg>,
+                    onClick: () => setHistoryOpen(true)
+                  }]),
+                  isTrashed ? {
+                    label: "Delete Permanently",
                     icon: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path></svg>,
                     onClick: () => setDeleteConfirmOpen(true),
                     variant: 'danger'
+                  } : {
+                    label: "Move to Trash",
+                    icon: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path></svg>,
+                    onClick: () => deleteMemo(activeMemo.id),
+                    variant: 'danger'
                   }
                 ]}
               />
@@ -518,8 +977,13 @@ function App() {
                 <CodeMirror
                   value={activeMemo.content}
                   height="100%"
-                  extensions={[markdown({ base: markdownLanguage, codeLanguages: languages })]}
+                  extensions={editorExtensions}
                   onChange={handleContentChange}
+                  readOnly={isTrashed}
+                  onCreateEditor={(view) => {
+                    editorViewRef.current = view;
+                    applyPendingJump();
+                  }}
                   theme={isDarkMode ? oneDark : 'light'}
                   className="h-full text-base"
                   style={getFontStyle()}
@@ -530,21 +994,70 @@ function App() {
                   ref={previewRef}
                   className="markdown-body p-8 h-full overflow-y-auto"
                   dangerouslySetInnerHTML={previewHtml}
+                  onClick={handlePreviewClick}
                   style={getFontStyle()}
                 />
               )}
             </>
           )}
         </div>
+        {activeMemo && <Backlinks memos={backlinks} onOpen={openMemo} />}
       </div>
 
+      {/* History Panel */}
+      {historyOpen && activeMemo && (
+        <HistoryPanel
+          memo={activeMemo}
+          onRestore={(revision) => {
+            updateMemo({ ...activeMemo, title: revision.title, content: revision.content, updatedAt: Date.now() });
+            setHistoryOpen(false);
+          }}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
+
+      {templatePickerOpen && url && (
+        <TemplatePicker
+          templates={templates}
+          url={url}
+          onPick={(template) => {
+            setTemplatePickerOpen(false);
+            startNote(template);
+          }}
+          onClose={() => setTemplatePickerOpen(false)}
+        />
+      )}
+
+      {tasksOpen && (
+        <TaskDashboard
+          memos={allMemos}
+          currentDomain={domain}
+          onToggle={(memo, index) => {
+            toggleTask(memo, index).catch((err) => console.error('Failed to update task', err));
+          }}
+          onOpen={(memo) => {
+            setTasksOpen(false);
+            openMemo(memo);
+          }}
+          onClose={() => setTasksOpen(false)}
+        />
+      )}
+
+      {screenshot && (
+        <ScreenshotCropper
+          screenshot={screenshot}
+          onInsert={(crop) => insertScreenshot(screenshot, crop)}
+          onCancel={() => setScreenshot(null)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {deleteConfirmOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-80 transform transition-all scale-100">
-            <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100 mb-2">Delete Note?</h3>
+            <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100 mb-2">Delete Permanently?</h3>
             <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
-              Are you sure you want to delete <span className="font-semibold text-gray-700 dark:text-gray-300">"{activeMemo?.title || 'Untitled'}"</span>? This action cannot be undone.
+              Are you sure you want to permanently delete <span className="font-semibold text-gray-700 dark:text-gray-300">"{activeMemo?.title || 'Untitled'}"</span>? This action cannot be undone.
             </p>
             <div className="flex justify-end gap-3">
               <button
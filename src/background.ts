@@ -1,4 +1,17 @@
-import type { MemoStore } from './types';
+import { getAllMemos, getMemo, getMemosByUrl, idFromMemoKey, isMemoKey, MEMO_INDEX_KEY, purgeExpiredTrash, scheduleTrashPurge, TRASH_PURGE_ALARM } from './utils/storage';
+import { URL_SETTINGS_KEY } from './utils/url';
+import { DOMAIN_SETTINGS_KEY } from './utils/domain';
+import { SYNC_SETTINGS_KEY, syncAll, syncMemos } from './utils/sync';
+import { idFromSyncKey, isSyncMetaKey } from './utils/syncProviders';
+import { BACKUP_ALARM, BACKUP_SCHEDULE_KEY, scheduleBackups, storeBackup } from './utils/backup';
+import { getPageHighlights } from './utils/highlights';
+import { clearPanelIntents, queuePanelIntent, takePanelIntents } from './utils/panelIntents';
+import { createSearchIndex, type SearchIndex } from './utils/search';
+import { describeDefault, noteIdFromInput, toSuggestion } from './utils/omnibox';
+import { memoIdFromReminder, scheduleReminders, showReminder } from './utils/reminders';
+import { captureSelection } from './utils/selection';
+import { ATTACHMENT_CLEANUP_ALARM, collectOrphanedAttachments, scheduleAttachmentCleanup } from './utils/attachments';
+import type { MemoMessage } from './types';
 
 // Enable the side panel to open on action click
 chrome.sidePanel
@@ -8,12 +21,8 @@ chrome.sidePanel
 const updateBadgeAndMenu = async (tabId: number, url: string) => {
   if (!url) return;
 
-  const result = await chrome.storage.local.get('memos');
-  const memos = (result.memos || {}) as MemoStore;
-  const memoList = Object.values(memos);
-  
-  // URL exact match count
-  const matchCount = memoList.filter(m => m.url === url).length;
+  // Notes written for this page, whether pinned to it or shared with the domain
+  const matchCount = (await getMemosByUrl(url)).length;
 
   // Update Badge
   if (matchCount > 0) {
@@ -33,6 +42,11 @@ const updateBadgeAndMenu = async (tabId: number, url: string) => {
   }
 };
 
+chrome.runtime.onStartup.addListener(() => {
+  // Catch up on changes made on other devices while the browser was closed
+  syncAll().catch((err) => console.error(err));
+});
+
 // Initialize Context Menu
 chrome.runtime.onInstalled.addListener(() => {
   if (chrome.contextMenus) {
@@ -41,6 +55,16 @@ chrome.runtime.onInstalled.addListener(() => {
       title: "Create Note for this Page",
       contexts: ["all"]
     });
+    chrome.contextMenus.create({
+      id: "add-selection-to-note",
+      title: "Add Selection to Note",
+      contexts: ["selection"]
+    });
+    chrome.contextMenus.create({
+      id: "capture-screenshot",
+      title: "Add Screenshot to Note",
+      contexts: ["page", "image", "link", "video"]
+    });
   }
 });
 
@@ -59,7 +83,7 @@ chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
 });
 
 chrome.storage.onChanged.addListener(async (changes, area) => {
-  if (area === 'local' && changes.memos) {
+  if (area === 'local' && (changes[MEMO_INDEX_KEY] || changes[URL_SETTINGS_KEY] || changes[DOMAIN_SETTINGS_KEY])) {
     const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
     if (tab?.id && tab?.url) {
       updateBadgeAndMenu(tab.id, tab.url);
@@ -67,6 +91,148 @@ chrome.storage.onChanged.addListener(async (changes, area) => {
   }
 });
 
+// Sync: push notes changed here, pull notes changed on other devices
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area === 'local' && changes[SYNC_SETTINGS_KEY]) {
+    syncAll().catch((err) => console.error(err));
+    return;
+  }
+
+  const keys = Object.keys(changes);
+  const ids = area === 'local'
+    ? keys.filter(isMemoKey).map(idFromMemoKey)
+    : area === 'sync'
+      ? keys.filter(isSyncMetaKey).map(idFromSyncKey)
+      : [];
+  if (ids.length > 0) {
+    syncMemos(ids).catch((err) => console.error(err));
+  }
+});
+
+// WebDAV and REST servers don't push changes, and queued edits need a retry
+const SYNC_ALARM = 'sync';
+// Creating it again on every worker start would keep pushing the first run back
+chrome.alarms.get(SYNC_ALARM).then((alarm) => {
+  if (!alarm) chrome.alarms.create(SYNC_ALARM, { periodInMinutes: 5 });
+});
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === SYNC_ALARM) {
+    syncAll().catch((err) => console.error(err));
+  }
+});
+
+// Scheduled local backups
+scheduleBackups().catch((err) => console.error(err));
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area === 'local' && changes[BACKUP_SCHEDULE_KEY]) {
+    scheduleBackups().catch((err) => console.error(err));
+  }
+});
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === BACKUP_ALARM) {
+    storeBackup().catch((err) => console.error('Scheduled backup failed', err));
+  }
+});
+
+// Reminders: one alarm per note, rebuilt on every worker start since alarms
+// don't always survive a browser restart
+scheduleReminders().catch((err) => console.error(err));
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area === 'local' && changes[MEMO_INDEX_KEY]) {
+    scheduleReminders().catch((err) => console.error(err));
+  }
+});
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (memoIdFromReminder(alarm.name)) {
+    showReminder(alarm.name).catch((err) => console.error(err));
+  }
+});
+
+// Empty out notes that have been in the trash for too long
+scheduleTrashPurge().catch((err) => console.error(err));
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === TRASH_PURGE_ALARM) {
+    purgeExpiredTrash().catch((err) => console.error('Trash purge failed', err));
+  }
+});
+
+// Images no note links to anymore, deleted after a grace period
+scheduleAttachmentCleanup().catch((err) => console.error(err));
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === ATTACHMENT_CLEANUP_ALARM) {
+    collectOrphanedAttachments().catch((err) => console.error('Attachment cleanup failed', err));
+  }
+});
+
+// The browser window last in focus. sidePanel.open is only allowed while a
+// click still counts as a user gesture, i.e. before anything is awaited, so
+// handlers that don't get a tab open the panel in this window right away.
+let focusedWindowId: number | null = null;
+chrome.windows.getLastFocused().then((window) => {
+  if (focusedWindowId === null && window.id !== undefined) focusedWindowId = window.id;
+}).catch((err) => console.error(err));
+chrome.windows.onFocusChanged.addListener((windowId) => {
+  if (windowId !== chrome.windows.WINDOW_ID_NONE) focusedWindowId = windowId;
+});
+
+// Call before the first await; returns the window the panel opens in
+const openPanelInFocusedWindow = (): number | null => {
+  if (focusedWindowId === null) return null;
+  chrome.sidePanel.open({ windowId: focusedWindowId }).catch((err) => console.error(err));
+  return focusedWindowId;
+};
+
+// Clicking a reminder opens the page with the note next to it
+chrome.notifications.onClicked.addListener(async (notificationId) => {
+  const memoId = memoIdFromReminder(notificationId);
+  if (!memoId) return;
+  const windowId = openPanelInFocusedWindow();
+  chrome.notifications.clear(notificationId);
+  const memo = await getMemo(memoId);
+  if (!memo) return;
+
+  const tab = memo.url
+    ? await chrome.tabs.create({ url: memo.url, windowId: windowId ?? undefined })
+    : (await chrome.tabs.query(windowId !== null ? { active: true, windowId } : { active: true, lastFocusedWindow: true }))[0];
+  if (!tab?.id) return;
+  await chrome.windows.update(tab.windowId, { focused: true });
+  await queuePanelIntent(tab.id, { type: 'OPEN_MEMO', memoId: memo.id });
+});
+
+chrome.runtime.onMessage.addListener((message: MemoMessage, sender, sendResponse) => {
+  if (message.type === 'SYNC_NOW') {
+    syncAll().catch((err) => console.error(err));
+  } else if (message.type === 'GET_HIGHLIGHTS') {
+    getPageHighlights(message.url).then(sendResponse, (err) => {
+      console.error(err);
+      sendResponse([]);
+    });
+    // Keeps the channel open for the async response
+    return true;
+  } else if (message.type === 'OPEN_HIGHLIGHT' && sender.tab?.id) {
+    // Only allowed while the click still counts as a user gesture; if the
+    // panel doesn't open, an already open panel still switches notes
+    chrome.sidePanel.open({ tabId: sender.tab.id }).catch(() => {});
+    queuePanelIntent(sender.tab.id, { type: 'OPEN_MEMO', memoId: message.memoId }).catch((err) => console.error(err));
+  } else if (message.type === 'PANEL_READY') {
+    takePanelIntents(message.tabId).then(sendResponse, (err) => {
+      console.error(err);
+      sendResponse([]);
+    });
+    return true;
+  }
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  clearPanelIntents(tabId).catch((err) => console.error(err));
+});
+
+// Prefer a note pinned to this page over a domain note created here
+const findPageMemo = async (url: string) => {
+  const pageMemos = await getMemosByUrl(url);
+  return pageMemos.find(m => m.isUrlSpecific) || pageMemos[0];
+};
+
 // Handle Context Menu Click
 if (chrome.contextMenus) {
   chrome.contextMenus.onClicked.addListener(async (info, tab) => {
@@ -75,29 +241,107 @@ if (chrome.contextMenus) {
       // chrome.sidePanel.open requires Chrome 114+
       await chrome.sidePanel.open({ tabId: tab.id });
 
-      // Determine action
-      const result = await chrome.storage.local.get('memos');
-      const memos = (result.memos || {}) as MemoStore;
-      const memoList = Object.values(memos);
-      const existingMemo = memoList.find(m => m.url === tab.url);
-
-      // Send message to App.tsx
-      // We need a slight delay to ensure the side panel is loaded if it wasn't open
-      setTimeout(() => {
-          chrome.runtime.sendMessage({
-              type: existingMemo ? 'OPEN_MEMO' : 'CREATE_MEMO',
-              memoId: existingMemo?.id,
-              url: tab.url,
-              title: tab.title
-          }).catch(() => {
-              // If receiver not ready (e.g., panel just opened), retrying might be needed 
-              // or App.tsx checks storage on mount.
-              // For now, simple fire-and-forget.
-              console.log("Message sent, but maybe no receiver yet.");
-          });
-      }, 500);
+      // Delivered once the panel is ready, see utils/panelIntents
+      const existingMemo = await findPageMemo(tab.url);
+      await queuePanelIntent(tab.id, existingMemo
+        ? { type: 'OPEN_MEMO', memoId: existingMemo.id }
+        : { type: 'CREATE_MEMO', url: tab.url, title: tab.title });
+    } else if (info.menuItemId === "add-selection-to-note" && tab?.id && tab?.url && info.selectionText) {
+      await chrome.sidePanel.open({ tabId: tab.id });
+
+      const existingMemo = await findPageMemo(tab.url);
+      await queuePanelIntent(tab.id, {
+        type: 'ADD_SELECTION',
+        memoId: existingMemo?.id,
+        // The frame the text was selected in, which may be an iframe
+        url: info.frameUrl || info.pageUrl || tab.url,
+        title: tab.title,
+        selection: info.selectionText,
+        // Highlights are only drawn in the top frame
+        anchor: info.frameId ? undefined : (await captureSelection(tab.id))?.anchor || undefined,
+      });
+    } else if (info.menuItemId === "capture-screenshot" && tab?.id) {
+      await chrome.sidePanel.open({ tabId: tab.id });
+      // The panel captures the page, so the image can be cropped right there
+      await queuePanelIntent(tab.id, { type: 'CAPTURE_SCREENSHOT' });
     }
   });
 } else {
   console.warn("chrome.contextMenus API not available.");
 }
+
+// Keyboard shortcuts, configurable at chrome://extensions/shortcuts.
+// Opening the panel itself is the built-in `_execute_action` command.
+chrome.commands.onCommand.addListener(async (command, tab) => {
+  if (!tab?.id || !tab.url) return;
+  // Must come first: the shortcut only counts as a user gesture for a moment
+  await chrome.sidePanel.open({ tabId: tab.id });
+
+  if (command === 'new-note') {
+    await queuePanelIntent(tab.id, { type: 'CREATE_MEMO', url: tab.url, title: tab.title });
+  } else if (command === 'add-selection') {
+    const captured = await captureSelection(tab.id);
+    if (!captured) return;
+    const existingMemo = await findPageMemo(tab.url);
+    await queuePanelIntent(tab.id, {
+      type: 'ADD_SELECTION',
+      memoId: existingMemo?.id,
+      url: tab.url,
+      title: tab.title,
+      selection: captured.text,
+      anchor: captured.anchor || undefined,
+    });
+  } else if (command === 'toggle-preview') {
+    await queuePanelIntent(tab.id, { type: 'TOGGLE_PREVIEW' });
+  }
+});
+
+// Address bar: `notes <query>` suggests matching notes
+const OMNIBOX_SUGGESTIONS = 6;
+let omniboxIndex: Promise<SearchIndex> | null = null;
+
+// Built fresh each time the keyword is entered, so it never goes stale
+chrome.omnibox.onInputStarted.addListener(() => {
+  omniboxIndex = getAllMemos().then((memos) => createSearchIndex(memos));
+});
+
+const searchNotes = async (text: string) => {
+  if (!omniboxIndex) omniboxIndex = getAllMemos().then((memos) => createSearchIndex(memos));
+  return text.trim() ? (await omniboxIndex).search(text, OMNIBOX_SUGGESTIONS) : [];
+};
+
+chrome.omnibox.onInputChanged.addListener(async (text, suggest) => {
+  const results = await searchNotes(text);
+  chrome.omnibox.setDefaultSuggestion({ description: describeDefault(results.length > 0) });
+  suggest(results.map(toSuggestion));
+});
+
+const openTab = async (url: string, disposition: `${chrome.omnibox.OnInputEnteredDisposition}`) => {
+  if (disposition === 'currentTab') {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (tab?.id) return chrome.tabs.update(tab.id, { url });
+  }
+  return chrome.tabs.create({ url, active: disposition !== 'newBackgroundTab' });
+};
+
+chrome.omnibox.onInputEntered.addListener(async (text, disposition) => {
+  // First, while pressing Enter still counts as a user gesture
+  openPanelInFocusedWindow();
+  const pickedId = noteIdFromInput(text);
+  const memo = pickedId ? await getMemo(pickedId) : (await searchNotes(text))[0]?.memo;
+
+  if (memo) {
+    // The page the note was written for, with the note next to it
+    const tab = memo.url
+      ? await openTab(memo.url, disposition)
+      : (await chrome.tabs.query({ active: true, currentWindow: true }))[0];
+    if (!tab?.id) return;
+    await queuePanelIntent(tab.id, { type: 'OPEN_MEMO', memoId: memo.id });
+    return;
+  }
+
+  // Nothing matched: start a note for the current page with the typed text
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (!tab?.id || !tab.url) return;
+  await queuePanelIntent(tab.id, { type: 'CREATE_MEMO', url: tab.url, title: tab.title, text: text.trim() });
+});
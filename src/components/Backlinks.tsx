@@ -0,0 +1,40 @@
+import { useState } from 'react';
+import type { Memo } from '../types';
+
+interface BacklinksProps {
+  memos: Memo[];
+  onOpen: (memo: Memo) => void;
+}
+
+// Notes that link to the open note with `[[its title]]`
+export function Backlinks({ memos, onOpen }: BacklinksProps) {
+  const [isOpen, setIsOpen] = useState(true);
+
+  if (memos.length === 0) return null;
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 shrink-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-1.5 text-left text-xs font-semibold text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 flex items-center gap-1"
+      >
+        <span>{isOpen ? '▾' : '▸'}</span>
+        {memos.length} {memos.length === 1 ? 'backlink' : 'backlinks'}
+      </button>
+      {isOpen && (
+        <div className="max-h-32 overflow-y-auto pb-1">
+          {memos.map(memo => (
+            <button
+              key={memo.id}
+              onClick={() => onOpen(memo)}
+              className="w-full text-left px-4 py-1 text-sm flex items-baseline gap-2 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <span className="truncate text-blue-600 dark:text-blue-400">{memo.title || 'Untitled'}</span>
+              <span className="shrink-0 text-[10px] text-gray-400">{memo.domain}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { Memo, MemoRevision } from '../types';
+import { getRevisions } from '../utils/history';
+import { diffLines, type DiffLine } from '../utils/diff';
+import { cn } from '../utils/cn';
+
+// Unchanged lines shown around each change; longer runs are collapsed
+const CONTEXT_LINES = 3;
+
+type DiffRow = DiffLine | { type: 'skip'; count: number };
+
+const collapseEqualRuns = (lines: DiffLine[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type !== 'equal') {
+      rows.push(lines[i]);
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end < lines.length && lines[end].type === 'equal') end++;
+    const keepHead = i === 0 ? 0 : CONTEXT_LINES;
+    const keepTail = end === lines.length ? 0 : CONTEXT_LINES;
+    if (end - i > keepHead + keepTail + 1) {
+      rows.push(...lines.slice(i, i + keepHead));
+      rows.push({ type: 'skip', count: end - i - keepHead - keepTail });
+      rows.push(...lines.slice(end - keepTail, end));
+    } else {
+      rows.push(...lines.slice(i, end));
+    }
+    i = end;
+  }
+  return rows;
+};
+
+interface HistoryPanelProps {
+  memo: Memo;
+  onRestore: (revision: MemoRevision) => void;
+  onClose: () => void;
+}
+
+export function HistoryPanel({ memo, onRestore, onClose }: HistoryPanelProps) {
+  const [revisions, setRevisions] = useState<MemoRevision[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    getRevisions(memo.id).then((loaded) => {
+      if (isMounted) setRevisions(loaded);
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [memo.id]);
+
+  // Default to the newest revision that differs from what is in the editor
+  const selected = revisions?.find(r => r.id === selectedId)
+    ?? revisions?.find(r => r.content !== memo.content)
+    ?? revisions?.[0]
+    ?? null;
+
+  const rows = useMemo(() => {
+    if (!selected) return [];
+    return collapseEqualRuns(diffLines(selected.content, memo.content));
+  }, [selected, memo.content]);
+
+  const isCurrent = selected !== null && selected.content === memo.content && selected.title === memo.title;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl h-full max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100">History</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            title="Close"
+          >
+            ✕
+          </button>
+        </div>
+
+        {revisions === null ? (
+          <div className="flex-1 flex items-center justify-center text-gray-400 text-sm">Loading…</div>
+        ) : revisions.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-gray-400 text-sm">No saved revisions yet.</div>
+        ) : (
+          <>
+            <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center gap-3">
+              <select
+                value={selected?.id ?? ''}
+                onChange={(e) => setSelectedId(e.target.value)}
+                className="flex-1 min-w-0 p-2 text-sm rounded border border-gray-300 dark:border-gray-600 bg-transparent dark:bg-gray-800"
+              >
+                {revisions.map(revision => (
+                  <option key={revision.id} value={revision.id}>
+                    {new Date(revision.savedAt).toLocaleString()} — {revision.title || 'Untitled'}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => selected && onRestore(selected)}
+                disabled={!selected || isCurrent}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed shrink-0"
+              >
+                Restore
+              </button>
+            </div>
+
+            <div className="px-4 pt-2 text-xs text-gray-500 dark:text-gray-400">
+              Changes from this revision to the current note
+            </div>
+            <div className="flex-1 overflow-auto p-4 font-mono text-xs">
+              {isCurrent ? (
+                <div className="text-gray-400 text-sm font-sans">This revision matches the current note.</div>
+              ) : (
+                rows.map((row, i) => (
+                  row.type === 'skip' ? (
+                    <div key={i} className="text-gray-400 py-1 select-none">… {row.count} unchanged lines</div>
+                  ) : (
+                    <div
+                      key={i}
+                      className={cn(
+                        "whitespace-pre-wrap break-all px-2",
+                        row.type === 'add' && "bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+                        row.type === 'remove' && "bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+                        row.type === 'equal' && "text-gray-600 dark:text-gray-400"
+                      )}
+                    >
+                      <span className="select-none mr-2">{row.type === 'add' ? '+' : row.type === 'remove' ? '-' : ' '}</span>
+                      {row.text || ' '}
+                    </div>
+                  )
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useMemo, useState } from 'react';
+import type { ImportAction, ImportCandidate, ImportItem, ImportStrategy } from '../utils/importNotes';
+import { resolveImport } from '../utils/importNotes';
+import { diffLines, toSideBySide, type DiffLine } from '../utils/diff';
+import type { ParsedBackup } from '../utils/backup';
+import { cn } from '../utils/cn';
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'New',
+  copy: 'Copy',
+  overwrite: 'Overwrite',
+  skip: 'Skip',
+};
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  create: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  copy: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300",
+  overwrite: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+  skip: "bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300",
+};
+
+const STRATEGY_OPTIONS: { value: ImportStrategy; label: string; description: string }[] = [
+  { value: 'newer', label: 'Keep newer', description: 'Replace a local note only if the imported one was edited more recently.' },
+  { value: 'both', label: 'Keep both', description: 'Import matching notes as separate copies.' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Replace matching local notes with the imported ones.' },
+];
+
+const DiffCell = ({ line, side }: { line?: DiffLine; side: 'left' | 'right' }) => (
+  <div
+    className={cn(
+      "whitespace-pre-wrap break-all px-2 min-h-[1.25em]",
+      line?.type === 'remove' && "bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+      line?.type === 'add' && "bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+      line?.type === 'equal' && "text-gray-600 dark:text-gray-400",
+      !line && "bg-gray-50 dark:bg-gray-900/40",
+      side === 'left' && "border-r border-gray-200 dark:border-gray-700"
+    )}
+  >
+    {line?.text || ' '}
+  </div>
+);
+
+// Local note on the left, incoming note on the right
+const ConflictView = ({ item }: { item: ImportItem }) => {
+  const rows = useMemo(
+    () => toSideBySide(diffLines(item.existing?.content ?? '', item.memo.content)),
+    [item.existing?.content, item.memo.content]
+  );
+  return (
+    <div className="mt-2 border border-gray-200 dark:border-gray-700 rounded text-xs">
+      <div className="grid grid-cols-2 bg-gray-50 dark:bg-gray-900/40 border-b border-gray-200 dark:border-gray-700 font-medium">
+        <div className="px-2 py-1 border-r border-gray-200 dark:border-gray-700">
+          Local · {item.existing && new Date(item.existing.updatedAt).toLocaleString()}
+        </div>
+        <div className="px-2 py-1">Imported · {new Date(item.memo.updatedAt).toLocaleString()}</div>
+      </div>
+      <div className="max-h-72 overflow-auto font-mono">
+        {rows.map((row, i) => (
+          <div key={i} className="grid grid-cols-2">
+            <DiffCell line={row.left} side="left" />
+            <DiffCell line={row.right} side="right" />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+interface ImportPreviewProps {
+  candidates: ImportCandidate[];
+  backup?: ParsedBackup; // Set when restoring a JSON backup
+  onConfirm: (items: ImportItem[], restoreSettings: boolean) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function ImportPreview({ candidates, backup, onConfirm, onCancel }: ImportPreviewProps) {
+  const [strategy, setStrategy] = useState<ImportStrategy>('newer');
+  const [restoreSettings, setRestoreSettings] = useState(false);
+  const [comparing, setComparing] = useState<number | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const items = useMemo(() => resolveImport(candidates, strategy), [candidates, strategy]);
+  const conflicts = candidates.filter(candidate => candidate.existing && !candidate.skipReason).length;
+  const counts = items.reduce<Record<ImportAction, number>>((acc, item) => {
+    acc[item.action]++;
+    return acc;
+  }, { create: 0, copy: 0, overwrite: 0, skip: 0 });
+  const toImport = counts.create + counts.copy + counts.overwrite;
+
+  const handleConfirm = async () => {
+    setIsImporting(true);
+    setError('');
+    try {
+      await onConfirm(items, restoreSettings);
+    } catch (err) {
+      console.error("Import failed", err);
+      setError(`Import failed, nothing was changed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100">Import Preview</h3>
+          <button
+            onClick={onCancel}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            title="Close"
+          >
+            ✕
+          </button>
+        </div>
+
+        {backup && (
+          <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 space-y-1 text-sm">
+            <div className="text-gray-600 dark:text-gray-300">
+              {backup.schemaVersion === 0
+                ? 'Backup from an older version without metadata.'
+                : `Backup from ${backup.exportedAt ? new Date(backup.exportedAt).toLocaleString() : 'an unknown date'}${backup.appVersion ? ` (version ${backup.appVersion})` : ''}.`}
+            </div>
+            {backup.warnings.map((warning, i) => (
+              <div key={i} className="text-xs text-amber-700 dark:text-amber-400">{warning}</div>
+            ))}
+            {backup.settings && (
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={restoreSettings}
+                  onChange={(e) => setRestoreSettings(e.target.checked)}
+                />
+                Also restore settings (fonts, page matching, domain grouping, trash, templates)
+              </label>
+            )}
+          </div>
+        )}
+
+        {conflicts > 0 && (
+          <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 space-y-1">
+            <div className="text-sm font-medium">{conflicts} {conflicts === 1 ? 'note matches' : 'notes match'} a local note</div>
+            <div className="flex flex-wrap gap-4">
+              {STRATEGY_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-center gap-1 text-sm">
+                  <input
+                    type="radio"
+                    name="importStrategy"
+                    checked={strategy === option.value}
+                    onChange={() => setStrategy(option.value)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+            <div className="text-xs text-gray-500">{STRATEGY_OPTIONS.find(option => option.value === strategy)!.description}</div>
+          </div>
+        )}
+
+        <div className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700">
+          Dry run: {counts.create} new, {counts.copy} copies, {counts.overwrite} to overwrite, {counts.skip} skipped. Nothing is saved until you import.
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+          {items.length === 0 && (
+            <div className="p-4 text-center text-gray-400 text-sm">No notes found.</div>
+          )}
+          {items.map((item, i) => (
+            <div key={i} className="px-4 py-2 text-sm">
+              <div className="flex items-start gap-3">
+                <span className={cn("shrink-0 w-20 text-center text-xs font-medium rounded px-2 py-0.5", ACTION_STYLES[item.action])}>
+                  {ACTION_LABELS[item.action]}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium truncate">{(item.existing || item.memo).title || 'Untitled'}</div>
+                  <div className="text-xs text-gray-400 truncate">
+                    {item.memo.domain || '(no domain)'} · {item.path}
+                  </div>
+                  {item.reason && <div className="text-xs text-gray-500">{item.reason}</div>}
+                </div>
+                {item.existing && item.existing.content !== item.memo.content && (
+                  <button
+                    onClick={() => setComparing(comparing === i ? null : i)}
+                    className="shrink-0 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {comparing === i ? 'Hide' : 'Compare'}
+                  </button>
+                )}
+                <div className="shrink-0 text-xs text-gray-400">{new Date(item.memo.updatedAt).toLocaleDateString()}</div>
+              </div>
+              {comparing === i && <ConflictView item={item} />}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex items-center justify-end gap-3">
+          {error && <span className="flex-1 text-sm text-red-600 dark:text-red-400">{error}</span>}
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={isImporting || (toImport === 0 && !restoreSettings)}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isImporting ? 'Importing…' : toImport === 0 && restoreSettings ? 'Restore Settings' : `Import ${toImport} ${toImport === 1 ? 'Note' : 'Notes'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
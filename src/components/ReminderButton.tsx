@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { formatFrontMatterDate, parseReminder } from '../utils/frontMatter';
+import { cn } from '../utils/cn';
+
+// `YYYY-MM-DDTHH:mm`, as a datetime-local input expects
+const toInputValue = (time: number) => formatFrontMatterDate(new Date(time)).replace(' ', 'T');
+
+const atNine = (daysAhead: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + daysAhead);
+  date.setHours(9, 0, 0, 0);
+  return date;
+};
+
+const PRESETS = [
+  { label: 'In 1 hour', date: () => new Date(Date.now() + 60 * 60 * 1000) },
+  { label: 'Tomorrow 9:00', date: () => atNine(1) },
+  { label: 'Next week', date: () => atNine(7) },
+];
+
+interface ReminderButtonProps {
+  remindAt?: number;
+  isOverdue: boolean;
+  onChange: (date: Date | null) => void;
+}
+
+export function ReminderButton({ remindAt, isOverdue, onChange }: ReminderButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const open = () => {
+    setDraft(toInputValue(remindAt ?? atNine(1).getTime()));
+    setIsOpen(true);
+  };
+
+  const pick = (date: Date | null) => {
+    onChange(date);
+    setIsOpen(false);
+  };
+
+  const draftTime = parseReminder(draft);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (isOpen ? setIsOpen(false) : open())}
+        className={cn(
+          "text-xs font-medium px-2 py-1 rounded flex items-center gap-1 hover:bg-gray-200 dark:hover:bg-gray-700",
+          remindAt === undefined
+            ? "bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300"
+            : isOverdue
+              ? "bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300"
+              : "bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300"
+        )}
+        title={remindAt === undefined ? 'Remind me about this note' : `Reminder: ${new Date(remindAt).toLocaleString()}`}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 8A6 6 0 0 0 6 8c0 7-3 9-3 9h18s-3-2-3-9"></path><path d="M13.73 21a2 2 0 0 1-3.46 0"></path></svg>
+        {remindAt !== undefined && new Date(remindAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)}></div>
+          <div className="absolute right-0 top-full mt-1 w-56 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded shadow-lg z-50 p-2 text-sm">
+            {PRESETS.map(preset => (
+              <button
+                key={preset.label}
+                onClick={() => pick(preset.date())}
+                className="w-full text-left px-2 py-1 rounded text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                {preset.label}
+              </button>
+            ))}
+            <div className="flex gap-1 mt-2">
+              <input
+                type="datetime-local"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="flex-1 min-w-0 px-1 py-0.5 text-xs rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+              />
+              <button
+                onClick={() => draftTime !== undefined && pick(new Date(draftTime))}
+                disabled={draftTime === undefined}
+                className="px-2 py-0.5 text-xs font-medium rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+              >
+                Set
+              </button>
+            </div>
+            {remindAt !== undefined && (
+              <button
+                onClick={() => pick(null)}
+                className="w-full text-left px-2 py-1 mt-2 rounded text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                Remove Reminder
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
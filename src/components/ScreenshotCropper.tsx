@@ -0,0 +1,120 @@
+import { useRef, useState } from 'react';
+import type { CropRect, Screenshot } from '../utils/screenshot';
+
+// Corners of the dragged region as fractions of the image, so it doesn't
+// depend on how large the image is shown
+interface Region {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// Smaller drags count as a click, which clears the region
+const MIN_REGION = 0.01;
+
+const clamp = (n: number) => Math.min(1, Math.max(0, n));
+
+interface ScreenshotCropperProps {
+  screenshot: Screenshot;
+  onInsert: (crop: CropRect | null) => void;
+  onCancel: () => void;
+}
+
+export function ScreenshotCropper({ screenshot, onInsert, onCancel }: ScreenshotCropperProps) {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const [region, setRegion] = useState<Region | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const pointAt = (e: React.PointerEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const box = region && {
+    left: Math.min(region.x0, region.x1),
+    top: Math.min(region.y0, region.y1),
+    width: Math.abs(region.x1 - region.x0),
+    height: Math.abs(region.y1 - region.y0),
+  };
+  const hasRegion = !!box && box.width >= MIN_REGION && box.height >= MIN_REGION;
+
+  const insert = () => {
+    const image = imageRef.current;
+    if (!hasRegion || !image) {
+      onInsert(null);
+      return;
+    }
+    onInsert({
+      x: box.left * image.naturalWidth,
+      y: box.top * image.naturalHeight,
+      width: box.width * image.naturalWidth,
+      height: box.height * image.naturalHeight,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <h3 className="font-bold text-gray-900 dark:text-gray-100">Screenshot</h3>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" title="Close">✕</button>
+        </div>
+        <div className="flex-1 min-h-0 overflow-auto p-4 flex justify-center">
+          <div
+            className="relative self-start overflow-hidden cursor-crosshair touch-none select-none"
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              const { x, y } = pointAt(e);
+              setRegion({ x0: x, y0: y, x1: x, y1: y });
+              setIsDragging(true);
+            }}
+            onPointerMove={(e) => {
+              if (!isDragging) return;
+              const { x, y } = pointAt(e);
+              setRegion((prev) => prev && { ...prev, x1: x, y1: y });
+            }}
+            onPointerUp={() => {
+              setIsDragging(false);
+              if (!hasRegion) setRegion(null);
+            }}
+          >
+            <img ref={imageRef} src={screenshot.dataUrl} alt="" draggable={false} className="block max-w-full max-h-[60vh]" />
+            {box && (
+              <div
+                className="absolute border-2 border-blue-500 pointer-events-none"
+                style={{
+                  left: `${box.left * 100}%`,
+                  top: `${box.top * 100}%`,
+                  width: `${box.width * 100}%`,
+                  height: `${box.height * 100}%`,
+                  // Dims everything outside the region
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)',
+                }}
+              />
+            )}
+          </div>
+        </div>
+        <div className="p-3 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between gap-3">
+          <span className="text-xs text-gray-500 truncate">
+            {hasRegion ? 'Drag again to change the region, click to clear it.' : 'Drag over the image to crop it.'}
+          </span>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={onCancel}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={insert}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+            >
+              {hasRegion ? 'Insert Region' : 'Insert Whole Screenshot'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useMemo, useState } from 'react';
+import type { Memo } from '../types';
+import { getOpenTasks, type Task } from '../utils/tasks';
+import { cn } from '../utils/cn';
+
+interface TaskDashboardProps {
+  memos: Memo[];
+  currentDomain: string | null;
+  onToggle: (memo: Memo, index: number) => void;
+  onOpen: (memo: Memo) => void;
+  onClose: () => void;
+}
+
+interface DomainTasks {
+  domain: string;
+  notes: { memo: Memo; tasks: Task[] }[];
+  count: number;
+}
+
+// Unchecked tasks from every note, grouped by domain with the current one first
+const groupOpenTasks = (memos: Memo[], currentDomain: string | null): DomainTasks[] => {
+  const groups = new Map<string, DomainTasks>();
+  [...memos].sort((a, b) => b.updatedAt - a.updatedAt).forEach((memo) => {
+    const tasks = getOpenTasks(memo.content);
+    if (tasks.length === 0) return;
+    const group = groups.get(memo.domain) ?? { domain: memo.domain, notes: [], count: 0 };
+    group.notes.push({ memo, tasks });
+    group.count += tasks.length;
+    groups.set(memo.domain, group);
+  });
+  return [...groups.values()].sort((a, b) => (
+    Number(b.domain === currentDomain) - Number(a.domain === currentDomain) || a.domain.localeCompare(b.domain)
+  ));
+};
+
+export function TaskDashboard({ memos, currentDomain, onToggle, onOpen, onClose }: TaskDashboardProps) {
+  const groups = useMemo(() => groupOpenTasks(memos, currentDomain), [memos, currentDomain]);
+  // Checked here but not saved yet; the task goes away once the note is
+  const [checked, setChecked] = useState<Set<string>>(() => new Set());
+  const total = groups.reduce((sum, group) => sum + group.count, 0);
+
+  const toggle = (memo: Memo, task: Task) => {
+    const key = `${memo.id}:${task.index}`;
+    setChecked((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+    onToggle(memo, task.index);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <h3 className="font-bold text-gray-900 dark:text-gray-100">
+            Open Tasks <span className="font-normal text-sm text-gray-400">{total}</span>
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" title="Close">✕</button>
+        </div>
+        <div className="overflow-y-auto py-2">
+          {groups.map(group => (
+            <div key={group.domain} className="mb-2">
+              <div className="px-4 py-1 text-xs font-semibold text-gray-500 dark:text-gray-400 flex justify-between">
+                <span className="truncate">{group.domain}</span>
+                <span className="shrink-0 font-normal">{group.count}</span>
+              </div>
+              {group.notes.map(({ memo, tasks }) => (
+                <div key={memo.id} className="px-4 py-1">
+                  <div className="flex items-baseline gap-2 text-[10px] text-gray-400 min-w-0">
+                    <button
+                      onClick={() => onOpen(memo)}
+                      className="truncate text-blue-600 dark:text-blue-400 hover:underline"
+                      title="Open this note"
+                    >
+                      {memo.title || 'Untitled'}
+                    </button>
+                    <a
+                      href={memo.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="truncate hover:underline hover:text-gray-600 dark:hover:text-gray-300"
+                      title={memo.url}
+                    >
+                      {memo.url.replace(/^https?:\/\//, '')}
+                    </a>
+                  </div>
+                  {tasks.map(task => {
+                    const isChecked = checked.has(`${memo.id}:${task.index}`);
+                    return (
+                      <label key={task.index} className="flex items-start gap-2 py-0.5 text-sm cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={isChecked}
+                          onChange={() => toggle(memo, task)}
+                          className="mt-1 shrink-0"
+                        />
+                        <span className={cn("break-words min-w-0", isChecked ? "line-through text-gray-400" : "text-gray-800 dark:text-gray-200")}>
+                          {task.text || '(empty task)'}
+                        </span>
+                      </label>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          ))}
+          {groups.length === 0 && (
+            <div className="p-4 text-center text-gray-400 text-sm">No open tasks. Add some with <code>- [ ] task</code> in a note.</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import type { NoteTemplate } from '../types';
+import { BUILTIN_TEMPLATE, findTemplate } from '../utils/templates';
+import { cn } from '../utils/cn';
+
+interface TemplatePickerProps {
+  templates: NoteTemplate[];
+  url: string;
+  onPick: (template: NoteTemplate) => void;
+  onClose: () => void;
+}
+
+export function TemplatePicker({ templates, url, onPick, onClose }: TemplatePickerProps) {
+  const suggested = findTemplate(url, templates) || BUILTIN_TEMPLATE;
+  // The one "New Note" would use comes first
+  const options = [suggested, ...[...templates, BUILTIN_TEMPLATE].filter(t => t.id !== suggested.id)];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-80 max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <h3 className="font-bold text-gray-900 dark:text-gray-100">New Note from Template</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" title="Close">✕</button>
+        </div>
+        <div className="overflow-y-auto py-1">
+          {options.map(template => (
+            <button
+              key={template.id}
+              onClick={() => onPick(template)}
+              className="w-full text-left px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <div className="text-sm font-medium text-gray-800 dark:text-gray-200 flex items-center gap-2">
+                <span className="truncate">{template.name}</span>
+                {template.id === suggested.id && (
+                  <span className="shrink-0 text-[10px] px-1.5 rounded-full bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300">Default here</span>
+                )}
+              </div>
+              <div className={cn("text-[10px] truncate", template.patterns.length > 0 ? "text-gray-500" : "text-gray-400")}>
+                {template.id === BUILTIN_TEMPLATE.id
+                  ? 'Front matter only'
+                  : template.patterns.length > 0 ? template.patterns.join(', ') : 'Not assigned to any site'}
+              </div>
+            </button>
+          ))}
+        </div>
+        <div className="p-3 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-500">
+          Templates are managed in{' '}
+          <button onClick={() => chrome.runtime.openOptionsPage()} className="text-blue-600 dark:text-blue-400 hover:underline">Settings</button>.
+        </div>
+      </div>
+    </div>
+  );
+}
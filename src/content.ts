@@ -0,0 +1,123 @@
+import { v4 as uuidv4 } from 'uuid';
+import { describeRange, HIGHLIGHT_ATTRIBUTE, highlightAnchor, removeHighlights } from './utils/anchoring';
+import type { CapturedSelection, Memo, MemoAnchor, MemoMessage, PageHighlight, PageMessage } from './types';
+
+// Draws the highlights saved in notes onto the page and captures new ones.
+// Notes are read through the background worker, so this script stays small.
+
+const MEMO_KEY_PREFIX = 'memo:';
+const RETRY_DELAY_MS = 1000;
+const MAX_RETRIES = 10;
+
+let highlights: PageHighlight[] = [];
+let currentUrl = location.href;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retriesLeft = MAX_RETRIES;
+
+const decorate = (memoId: string) => (mark: HTMLElement) => {
+  mark.style.backgroundColor = 'rgba(255, 212, 59, 0.5)';
+  mark.style.color = 'inherit';
+  mark.style.cursor = 'pointer';
+  mark.title = 'Open note';
+  mark.addEventListener('click', (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    chrome.runtime.sendMessage({ type: 'OPEN_HIGHLIGHT', memoId } satisfies MemoMessage).catch(() => {});
+  });
+};
+
+const applyHighlights = () => {
+  observer.disconnect();
+  removeHighlights();
+  highlights.forEach(({ memoId, anchor }) => highlightAnchor(anchor, decorate(memoId)));
+  // Our own marks are added while disconnected, so they don't trigger a redraw
+  observer.observe(document.body, { childList: true, subtree: true, characterData: true });
+};
+
+const loadHighlights = async () => {
+  currentUrl = location.href;
+  retriesLeft = MAX_RETRIES;
+  try {
+    highlights = (await chrome.runtime.sendMessage({ type: 'GET_HIGHLIGHTS', url: currentUrl } satisfies MemoMessage)) || [];
+  } catch {
+    // The extension was reloaded or updated; this copy of the script is orphaned
+    highlights = [];
+  }
+  applyHighlights();
+};
+
+const countDrawn = () => {
+  const ids = new Set<string>();
+  document.querySelectorAll(`mark[${HIGHLIGHT_ATTRIBUTE}]`).forEach((mark) => {
+    ids.add(mark.getAttribute(HIGHLIGHT_ATTRIBUTE) || '');
+  });
+  return ids.size;
+};
+
+// Single-page apps change the URL and the content without a reload, and
+// other pages fill in their text after load. Missing highlights are retried
+// a few times as the page changes, not forever.
+const observer = new MutationObserver(() => {
+  if (location.href !== currentUrl) {
+    loadHighlights();
+    return;
+  }
+  if (retryTimer || retriesLeft <= 0 || countDrawn() >= highlights.length) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    retriesLeft--;
+    applyHighlights();
+  }, RETRY_DELAY_MS);
+});
+
+chrome.runtime.onMessage.addListener((message: PageMessage, _sender, sendResponse) => {
+  if (message.type === 'CAPTURE_SELECTION') {
+    const selection = window.getSelection();
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    const text = selection?.toString() || '';
+    sendResponse(range && text.trim() ? { text, anchor: describeRange(range, location.href, uuidv4()) } satisfies CapturedSelection : null);
+  }
+});
+
+// The path as URL normalization leaves it (no `;jsessionid=...`, no trailing
+// slash). Only a cheap pre-check; the background does the real matching.
+const pathKey = (url: string) => {
+  try {
+    return new URL(url).pathname.replace(/;[^/]*/g, '').replace(/\/+$/, '');
+  } catch {
+    return url;
+  }
+};
+
+// Anchors a stored note draws, by ID; none while it's in the trash
+const drawnAnchors = (memo: Memo | undefined) => {
+  return new Map((memo && !memo.deletedAt ? memo.anchors || [] : []).map((anchor) => [anchor.id, anchor]));
+};
+
+const scopeOf = (memo: Memo | undefined) => memo && `${memo.domain} ${memo.url} ${memo.isUrlSpecific}`;
+
+// Whether a write to a note can change what is highlighted here: an anchor
+// for this page came or went, or its note was trashed, restored or moved to
+// another scope. Plain edits, saved as the user types, redraw nothing.
+const affectsPage = (change: chrome.storage.StorageChange) => {
+  const oldMemo = change.oldValue as Memo | undefined;
+  const newMemo = change.newValue as Memo | undefined;
+  const before = drawnAnchors(oldMemo);
+  const after = drawnAnchors(newMemo);
+  const moved = scopeOf(oldMemo) !== scopeOf(newMemo);
+  const page = pathKey(location.href);
+  const changed: MemoAnchor[] = [...before.values(), ...after.values()]
+    .filter((anchor) => moved || !before.has(anchor.id) || !after.has(anchor.id));
+  return changed.some((anchor) => pathKey(anchor.url) === page);
+};
+
+// Notes changed: a highlight may have been added or its note deleted
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area !== 'local') return;
+  const relevant = Object.entries(changes).some(([key, change]) => key.startsWith(MEMO_KEY_PREFIX) && affectsPage(change));
+  if (relevant) loadHighlights();
+});
+
+window.addEventListener('popstate', () => loadHighlights());
+
+loadHighlights();
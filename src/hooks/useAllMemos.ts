@@ -0,0 +1,50 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Memo } from '../types';
+import { getAllMemos, subscribeToMemoChanges } from '../utils/storage';
+
+// Every note outside the trash, kept current as notes change anywhere.
+// Note links need all titles and contents, not just the notes in view.
+export const useAllMemos = (): Memo[] => {
+  const [memos, setMemos] = useState<Map<string, Memo>>(() => new Map());
+
+  useEffect(() => {
+    let isMounted = true;
+    const touched = new Set<string>();
+
+    // Subscribe before loading so writes during the initial load aren't missed
+    const unsubscribe = subscribeToMemoChanges((changed, removedIds) => {
+      setMemos((prev) => {
+        const next = new Map(prev);
+        changed.forEach((memo) => {
+          touched.add(memo.id);
+          if (memo.deletedAt) {
+            next.delete(memo.id);
+          } else {
+            next.set(memo.id, memo);
+          }
+        });
+        removedIds.forEach((id) => {
+          touched.add(id);
+          next.delete(id);
+        });
+        return next;
+      });
+    });
+
+    getAllMemos().then((loaded) => {
+      if (!isMounted) return;
+      setMemos((prev) => {
+        const next = new Map(prev);
+        loaded.filter((memo) => !touched.has(memo.id)).forEach((memo) => next.set(memo.id, memo));
+        return next;
+      });
+    });
+
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return useMemo(() => [...memos.values()], [memos]);
+};
@@ -0,0 +1,45 @@
+import { useEffect, useRef, useState } from 'react';
+import { getAttachmentIds, getAttachments } from '../utils/attachments';
+
+// Object URLs for the attachments a note links to, keyed by attachment ID.
+// URLs still in use are kept when the note changes; the rest are revoked.
+export const useAttachmentUrls = (content: string | undefined): Map<string, string> => {
+  const [urls, setUrls] = useState<Map<string, string>>(() => new Map());
+  const urlsRef = useRef<Map<string, string>>(new Map());
+  const ids = content ? getAttachmentIds(content).sort().join(',') : '';
+
+  useEffect(() => {
+    let isMounted = true;
+    const wanted = ids ? ids.split(',') : [];
+    const missing = wanted.filter((id) => !urlsRef.current.has(id));
+
+    getAttachments(missing).then((loaded) => {
+      if (!isMounted) return;
+      const next = new Map<string, string>();
+      wanted.forEach((id) => {
+        const url = urlsRef.current.get(id);
+        if (url) next.set(id, url);
+      });
+      loaded.forEach((attachment) => next.set(attachment.id, URL.createObjectURL(attachment.blob)));
+      urlsRef.current.forEach((url, id) => {
+        if (!next.has(id)) URL.revokeObjectURL(url);
+      });
+      urlsRef.current = next;
+      setUrls(next);
+    }).catch((err) => console.error('Failed to load attachments', err));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [ids]);
+
+  useEffect(() => {
+    const current = urlsRef;
+    return () => {
+      current.current.forEach((url) => URL.revokeObjectURL(url));
+      current.current = new Map();
+    };
+  }, []);
+
+  return urls;
+};
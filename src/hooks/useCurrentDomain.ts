@@ -1,4 +1,6 @@
 import { useState, useEffect } from 'react';
+import { getUrlSettings, normalizeUrl, URL_SETTINGS_KEY } from '../utils/url';
+import { DOMAIN_SETTINGS_KEY, getDomainSettings, resolveDomain } from '../utils/domain';
 
 export const useCurrentDomain = () => {
   const [domain, setDomain] = useState<string | null>(() => {
@@ -9,9 +11,11 @@ export const useCurrentDomain = () => {
       return 'localhost';
     }
   });
+  // Name of the bucket the domain is grouped into (same as `domain` in exact mode)
+  const [domainGroup, setDomainGroup] = useState<string | null>(() => domain && resolveDomain(domain));
   const [url, setUrl] = useState<string | null>(() => {
     if (typeof chrome !== 'undefined' && chrome.tabs) return null;
-    return window.location.href;
+    return normalizeUrl(window.location.href);
   });
   const [title, setTitle] = useState<string | null>(() => {
     if (typeof chrome !== 'undefined' && chrome.tabs) return null;
@@ -31,12 +35,15 @@ export const useCurrentDomain = () => {
       if (tab?.url) {
         try {
           const urlObj = new URL(tab.url);
+          const [urlSettings, domainSettings] = await Promise.all([getUrlSettings(), getDomainSettings()]);
           setDomain(urlObj.hostname);
-          setUrl(tab.url);
+          setDomainGroup(resolveDomain(urlObj.hostname, domainSettings));
+          setUrl(normalizeUrl(tab.url, urlSettings));
           setTitle(tab.title || '');
         } catch {
           console.error("Invalid URL:", tab.url);
           setDomain(null);
+          setDomainGroup(null);
           setUrl(null);
           setTitle(null);
         }
@@ -53,14 +60,22 @@ export const useCurrentDomain = () => {
       }
     };
 
+    const handleStorageChange = (changes: { [key: string]: chrome.storage.StorageChange }, area: string) => {
+      if (area === 'local' && (changes[URL_SETTINGS_KEY] || changes[DOMAIN_SETTINGS_KEY])) {
+        updateTabInfo();
+      }
+    };
+
     chrome.tabs.onActivated.addListener(handleActivated);
     chrome.tabs.onUpdated.addListener(handleUpdated);
+    chrome.storage.onChanged.addListener(handleStorageChange);
 
     return () => {
       chrome.tabs.onActivated.removeListener(handleActivated);
       chrome.tabs.onUpdated.removeListener(handleUpdated);
+      chrome.storage.onChanged.removeListener(handleStorageChange);
     };
   }, []);
 
-  return { domain, url, title };
+  return { domain, domainGroup, url, title };
 };
@@ -1,44 +1,71 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import type { Memo } from '../types';
-import { getAllMemos, getMemosByDomain, saveMemo, deleteMemo as deleteMemoFromStorage } from '../utils/storage';
-
-export const useMemos = (domain: string | null, url: string | null, title: string | null, viewMode: 'domain' | 'all' = 'domain') => {
+import type { Memo, MemoAnchor, NoteTemplate, ViewMode } from '../types';
+import {
+  getAllMemos,
+  getMemo,
+  getMemosByDomain,
+  getMemosByTag,
+  getMemosByUrl,
+  getMemosWithReminders,
+  getTrashedMemos,
+  purgeExpiredTrash,
+  saveMemo,
+  saveMemos,
+  trashMemo,
+  restoreMemo as restoreMemoFromStorage,
+  deleteMemo as deleteMemoFromStorage,
+} from '../utils/storage';
+import { formatFrontMatterDate, getReminder, getTags, updateFrontMatter } from '../utils/frontMatter';
+import { appendBlock } from '../utils/selection';
+import { getTemplateForPage, renderTemplate, renderTemplateTitle } from '../utils/templates';
+import { isLinkableTitle, linksTo, renameWikiLinks, sameTitle } from '../utils/wikiLinks';
+import { toggleTask as toggleTaskInContent } from '../utils/tasks';
+
+const fetchMemosForView = async (viewMode: ViewMode, domain: string | null, url: string | null, tagFilter: string | null): Promise<Memo[]> => {
+  // A tag filter spans every domain
+  if (tagFilter) {
+    return getMemosByTag(tagFilter);
+  }
+  if (viewMode === 'reminders') {
+    return getMemosWithReminders();
+  }
+  if (viewMode === 'trash') {
+    await purgeExpiredTrash();
+    return getTrashedMemos();
+  }
+  if (viewMode === 'all') {
+    const loaded = await getAllMemos();
+    return loaded.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+  if (viewMode === 'page') {
+    return url ? getMemosByUrl(url) : [];
+  }
+  return domain ? getMemosByDomain(domain, url) : [];
+};
+
+export const useMemos = (domain: string | null, domainGroup: string | null, url: string | null, title: string | null, viewMode: ViewMode = 'domain', tagFilter: string | null = null) => {
   const [memos, setMemos] = useState<Memo[]>([]);
   const [activeMemoId, setActiveMemoId] = useState<string | null>(null);
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const pendingSaveRef = useRef<Memo | null>(null);
 
   const loadMemos = useCallback(async () => {
-    let loaded: Memo[];
-    if (viewMode === 'all') {
-      loaded = await getAllMemos();
-      loaded.sort((a, b) => b.updatedAt - a.updatedAt);
-    } else if (domain) {
-      loaded = await getMemosByDomain(domain);
-    } else {
-      loaded = [];
-    }
+    const loaded = await fetchMemosForView(viewMode, domain, url, tagFilter);
     
     setMemos(loaded);
     // Automatically select the most recently updated memo if none selected
     if (loaded.length > 0 && !activeMemoId) {
       setActiveMemoId(loaded[0].id);
     }
-  }, [domain, viewMode, activeMemoId]);
+  }, [domain, url, viewMode, tagFilter, activeMemoId]);
 
+  // domainGroup changes with the grouping settings, which re-runs the filter
   useEffect(() => {
     let isMounted = true;
 
     const fetchMemos = async () => {
-      let loaded: Memo[];
-      if (viewMode === 'all') {
-        loaded = await getAllMemos();
-        loaded.sort((a, b) => b.updatedAt - a.updatedAt);
-      } else if (domain) {
-        loaded = await getMemosByDomain(domain);
-      } else {
-        loaded = [];
-      }
+      const loaded = await fetchMemosForView(viewMode, domain, url, tagFilter);
 
       if (isMounted) {
         setMemos(loaded);
@@ -56,43 +83,44 @@ export const useMemos = (domain: string | null, url: string | null, title: strin
         clearTimeout(saveTimeoutRef.current);
       }
     };
-  }, [domain, viewMode, activeMemoId]);
+  }, [domain, domainGroup, url, viewMode, tagFilter, activeMemoId]);
 
-  const createMemo = async () => {
+  // `body` fills the template's {{selection}}; without a template, the one
+  // set up for this page is used
+  const createMemo = async (body: string = '', anchors?: MemoAnchor[], template?: NoteTemplate) => {
     if (!domain || !url) return;
-    
-    const now = new Date();
-    const formattedDate = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')} ${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
-    
-    const frontmatter = `---
-URL: ${url}
-title: ${title || ''}
-created_at: ${formattedDate}
----
 
-`;
-
-    let displayTitle = 'New Note';
-    if (title) {
-      displayTitle = `Note: ${title}`;
+    const vars = { url, title: title || '', domain, selection: body, date: new Date() };
+    const noteTemplate = template || await getTemplateForPage(url);
+    let content = renderTemplate(noteTemplate, vars);
+    // Notes created while filtering by a tag get that tag
+    if (tagFilter && !getTags(content).some((tag) => tag.toLowerCase() === tagFilter.toLowerCase())) {
+      content = updateFrontMatter(content, { tags: [...getTags(content), tagFilter] });
     }
 
     const newMemo: Memo = {
       id: uuidv4(),
-      title: displayTitle,
-      content: frontmatter,
+      title: renderTemplateTitle(noteTemplate, vars),
+      content,
       domain,
       url,
-      isUrlSpecific: false,
+      // Notes created from the page view stay on that page
+      isUrlSpecific: viewMode === 'page',
+      tags: getTags(content),
       createdAt: Date.now(),
       updatedAt: Date.now(),
+      remindAt: getReminder(content),
+      anchors,
     };
     await saveMemo(newMemo);
     await loadMemos();
     setActiveMemoId(newMemo.id);
   };
 
-  const updateMemo = useCallback((updatedMemo: Memo) => {
+  const updateMemo = useCallback((changedMemo: Memo) => {
+    // Tags and the reminder always follow the front matter
+    const updatedMemo = { ...changedMemo, tags: getTags(changedMemo.content), remindAt: getReminder(changedMemo.content) };
+
     // Optimistic update
     setMemos((prev) => prev.map((m) => (m.id === updatedMemo.id ? updatedMemo : m)));
     
@@ -101,16 +129,45 @@ created_at: ${formattedDate}
       clearTimeout(saveTimeoutRef.current);
     }
 
+    pendingSaveRef.current = updatedMemo;
     saveTimeoutRef.current = setTimeout(async () => {
+      pendingSaveRef.current = null;
       await saveMemo(updatedMemo);
     }, 1000);
   }, []);
 
-  const deleteMemo = async (id: string) => {
+  // Writes a debounced edit right away so it isn't lost by the next operation
+  const flushPendingSave = async () => {
     if (saveTimeoutRef.current) {
       clearTimeout(saveTimeoutRef.current);
     }
+    const pending = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    if (pending) {
+      await saveMemo(pending);
+    }
+  };
 
+  // Moves the note to the trash
+  const deleteMemo = async (id: string) => {
+    await flushPendingSave();
+    await trashMemo(id);
+    await loadMemos();
+    if (activeMemoId === id) {
+      setActiveMemoId(null);
+    }
+  };
+
+  const restoreMemo = async (id: string) => {
+    await restoreMemoFromStorage(id);
+    await loadMemos();
+    if (activeMemoId === id) {
+      setActiveMemoId(null);
+    }
+  };
+
+  const deleteMemoPermanently = async (id: string) => {
+    await flushPendingSave();
     await deleteMemoFromStorage(id);
     await loadMemos();
     if (activeMemoId === id) {
@@ -118,6 +175,64 @@ created_at: ${formattedDate}
     }
   };
 
+  // Adds a block to the end of a note, or starts a new note for the page with it.
+  // `anchor` is the page highlight the block quotes, if any.
+  const appendToMemo = async (memoId: string | undefined, block: string, anchor?: MemoAnchor) => {
+    await flushPendingSave();
+    const existing = memoId ? await getMemo(memoId) : null;
+    if (!existing || existing.deletedAt) {
+      await createMemo(block, anchor && [anchor]);
+      return;
+    }
+    const content = appendBlock(existing.content, block);
+    const anchors = anchor ? [...(existing.anchors || []), anchor] : existing.anchors;
+    await saveMemo({ ...existing, content, tags: getTags(content), remindAt: getReminder(content), anchors, updatedAt: Date.now() });
+    await loadMemos();
+    setActiveMemoId(existing.id);
+  };
+
+  const toggleUrlSpecific = (memo: Memo) => {
+    updateMemo({ ...memo, isUrlSpecific: !memo.isUrlSpecific, updatedAt: Date.now() });
+  };
+
+  // Points `[[old title]]` links in other notes at the note's new title
+  const renameLinks = async (memo: Memo, oldTitle: string) => {
+    if (!isLinkableTitle(oldTitle) || !isLinkableTitle(memo.title) || sameTitle(oldTitle, memo.title)) return;
+    await flushPendingSave();
+    const others = (await getAllMemos()).filter((m) => m.id !== memo.id);
+    // Those links still lead to another note with the old title
+    if (others.some((m) => sameTitle(m.title, oldTitle))) return;
+    const changed = others
+      .filter((m) => linksTo(m.content, oldTitle))
+      .map((m) => ({ ...m, content: renameWikiLinks(m.content, oldTitle, memo.title), updatedAt: Date.now() }));
+    if (changed.length === 0) return;
+    await saveMemos(changed);
+    await loadMemos();
+  };
+
+  // Checks or unchecks a task, also in notes outside the list (from the tasks view)
+  const toggleTask = async (memo: Memo, index: number) => {
+    // A debounced edit to another note would be dropped by the next updateMemo
+    await flushPendingSave();
+    const listed = memos.find((m) => m.id === memo.id);
+    if (listed) {
+      const content = toggleTaskInContent(listed.content, index);
+      if (content !== listed.content) updateMemo({ ...listed, content, updatedAt: Date.now() });
+      return;
+    }
+    const existing = await getMemo(memo.id);
+    if (!existing || existing.deletedAt) return;
+    const content = toggleTaskInContent(existing.content, index);
+    if (content === existing.content) return;
+    await saveMemo({ ...existing, content, tags: getTags(content), remindAt: getReminder(content), updatedAt: Date.now() });
+  };
+
+  // Written to the `remind` key, so the reminder can be edited in the text too
+  const setReminder = (memo: Memo, date: Date | null) => {
+    const content = updateFrontMatter(memo.content, { remind: date ? formatFrontMatterDate(date) : undefined });
+    updateMemo({ ...memo, content, updatedAt: Date.now() });
+  };
+
   const activeMemo = memos.find((m) => m.id === activeMemoId) || null;
 
   return {
@@ -125,7 +240,14 @@ created_at: ${formattedDate}
     activeMemo,
     setActiveMemoId,
     createMemo,
+    appendToMemo,
     updateMemo,
     deleteMemo,
+    restoreMemo,
+    deleteMemoPermanently,
+    toggleUrlSpecific,
+    setReminder,
+    renameLinks,
+    toggleTask,
   };
 };
\ No newline at end of file
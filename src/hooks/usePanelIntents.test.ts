@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import type { MemoMessage, PanelIntent } from '../types';
+import { fakeChrome } from '../test/fakeChrome';
+import { queuePanelIntent, takePanelIntents } from '../utils/panelIntents';
+import { usePanelIntents } from './usePanelIntents';
+
+const TAB_ID = 1;
+
+const openMemo = (memoId: string): PanelIntent => ({ type: 'OPEN_MEMO', memoId });
+
+// Plays the background worker: PANEL_READY is answered with the queued
+// intents, and INTENTS_PENDING reaches the open panel's listeners
+beforeEach(() => {
+  const { runtime } = fakeChrome();
+  runtime.sendMessage.mockImplementation(async (message) => {
+    const typed = message as MemoMessage;
+    if (typed.type === 'PANEL_READY') return takePanelIntents(typed.tabId);
+    if (typed.type === 'INTENTS_PENDING') runtime.onMessage.dispatch(typed, {}, () => {});
+  });
+});
+
+describe('usePanelIntents', () => {
+  it('handles intents queued before the panel opened, in order', async () => {
+    await queuePanelIntent(TAB_ID, openMemo('a'));
+    await queuePanelIntent(TAB_ID, { type: 'FOCUS_SEARCH' });
+    const handler = vi.fn();
+
+    renderHook(() => usePanelIntents(handler, true));
+
+    await waitFor(() => expect(handler).toHaveBeenCalledTimes(2));
+    expect(handler.mock.calls.map(([intent]) => intent)).toEqual([openMemo('a'), { type: 'FOCUS_SEARCH' }]);
+    expect(await takePanelIntents(TAB_ID)).toEqual([]);
+  });
+
+  it('waits until it is ready', async () => {
+    await queuePanelIntent(TAB_ID, openMemo('a'));
+    const handler = vi.fn();
+
+    const { rerender } = renderHook(({ ready }) => usePanelIntents(handler, ready), { initialProps: { ready: false } });
+    expect(fakeChrome().runtime.sendMessage).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'PANEL_READY' }));
+
+    rerender({ ready: true });
+    await waitFor(() => expect(handler).toHaveBeenCalledWith(openMemo('a')));
+  });
+
+  it('picks up intents announced while the panel is open', async () => {
+    const handler = vi.fn();
+    renderHook(() => usePanelIntents(handler, true));
+    await waitFor(() => expect(fakeChrome().runtime.sendMessage).toHaveBeenCalledTimes(1));
+    expect(handler).not.toHaveBeenCalled();
+
+    await queuePanelIntent(TAB_ID, openMemo('b'));
+
+    await waitFor(() => expect(handler).toHaveBeenCalledWith(openMemo('b')));
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops listening once unmounted', async () => {
+    const handler = vi.fn();
+    const { unmount } = renderHook(() => usePanelIntents(handler, true));
+    await waitFor(() => expect(fakeChrome().runtime.sendMessage).toHaveBeenCalledTimes(1));
+    unmount();
+
+    await queuePanelIntent(TAB_ID, openMemo('b'));
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(await takePanelIntents(TAB_ID)).toEqual([openMemo('b')]);
+  });
+
+  it('keeps going when one intent fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await queuePanelIntent(TAB_ID, openMemo('missing'));
+    await queuePanelIntent(TAB_ID, openMemo('a'));
+    const handler = vi.fn(async (intent: PanelIntent) => {
+      if (intent.type === 'OPEN_MEMO' && intent.memoId === 'missing') throw new Error('Note not found');
+    });
+
+    renderHook(() => usePanelIntents(handler, true));
+
+    await waitFor(() => expect(handler).toHaveBeenCalledTimes(2));
+    expect(handler).toHaveBeenLastCalledWith(openMemo('a'));
+    expect(console.error).toHaveBeenCalledWith('Failed to handle panel intent', 'OPEN_MEMO', expect.any(Error));
+  });
+});
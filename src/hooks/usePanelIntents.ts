@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+import type { MemoMessage, PanelIntent } from '../types';
+
+// Claims the intents the background queued for this panel's tab (see
+// utils/panelIntents) once `ready` is true, and again whenever new ones are
+// announced. Intents run one after another in the order they were queued.
+export const usePanelIntents = (handleIntent: (intent: PanelIntent) => Promise<void> | void, ready: boolean) => {
+  const handlerRef = useRef(handleIntent);
+  useEffect(() => {
+    handlerRef.current = handleIntent;
+  });
+
+  useEffect(() => {
+    if (!ready || typeof chrome === 'undefined' || !chrome.tabs) return;
+    let claiming: Promise<void> = Promise.resolve();
+
+    const claim = () => {
+      claiming = claiming.then(async () => {
+        const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+        if (!tab?.id) return;
+        const intents: PanelIntent[] = await chrome.runtime.sendMessage({ type: 'PANEL_READY', tabId: tab.id } satisfies MemoMessage);
+        for (const intent of intents || []) {
+          // One failing intent must not drop the ones queued after it
+          try {
+            await handlerRef.current(intent);
+          } catch (err) {
+            console.error('Failed to handle panel intent', intent.type, err);
+          }
+        }
+      }).catch((err) => console.error('Failed to claim panel intents', err));
+    };
+
+    const handleMessage = (message: MemoMessage) => {
+      if (message.type === 'INTENTS_PENDING') claim();
+    };
+    chrome.runtime.onMessage.addListener(handleMessage);
+    claim();
+    return () => chrome.runtime.onMessage.removeListener(handleMessage);
+  }, [ready]);
+};
@@ -0,0 +1,51 @@
+import { useState, useEffect, useMemo } from 'react';
+import { createSearchIndex } from '../utils/search';
+import { getAllMemos, subscribeToMemoChanges } from '../utils/storage';
+
+export const useSearch = (query: string) => {
+  // The index is mutated in place; replacing the wrapper object re-runs the search
+  const [store, setStore] = useState(() => ({ index: createSearchIndex() }));
+  // Stays the same object for the whole lifetime of the panel
+  const { index } = store;
+
+  useEffect(() => {
+    let isMounted = true;
+    const touched = new Set<string>();
+
+    // Subscribe before loading so writes during the initial load aren't missed
+    const unsubscribe = subscribeToMemoChanges((changed, removedIds) => {
+      changed.forEach((memo) => {
+        touched.add(memo.id);
+        // Trashed notes drop out of the results until restored
+        if (memo.deletedAt) {
+          index.remove(memo.id);
+        } else {
+          index.add(memo);
+        }
+      });
+      removedIds.forEach((id) => {
+        touched.add(id);
+        index.remove(id);
+      });
+      setStore({ index });
+    });
+
+    getAllMemos().then((memos) => {
+      if (!isMounted) return;
+      memos.filter((memo) => !touched.has(memo.id)).forEach(index.add);
+      setStore({ index });
+    });
+
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, [index]);
+
+  const results = useMemo(() => {
+    if (!query.trim()) return [];
+    return store.index.search(query);
+  }, [store, query]);
+
+  return results;
+};
@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import type { MemoMessage, SyncStatus } from '../types';
+import { getSyncStatus, SYNC_STATUS_KEY } from '../utils/sync';
+
+const OFF: SyncStatus = { state: 'off' };
+
+// Sync progress as reported by the background worker
+export const useSyncStatus = (): SyncStatus => {
+  const [status, setStatus] = useState<SyncStatus>(OFF);
+
+  useEffect(() => {
+    if (typeof chrome === 'undefined' || !chrome.storage?.sync) return;
+
+    getSyncStatus().then(setStatus);
+    const handleChange = (changes: { [key: string]: chrome.storage.StorageChange }, area: string) => {
+      if (area === 'local' && changes[SYNC_STATUS_KEY]) {
+        setStatus((changes[SYNC_STATUS_KEY].newValue as SyncStatus | undefined) || OFF);
+      }
+    };
+    // Send queued edits as soon as the connection is back instead of waiting for the next retry
+    const handleOnline = () => {
+      chrome.runtime.sendMessage({ type: 'SYNC_NOW' } satisfies MemoMessage).catch(() => {});
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      chrome.storage.onChanged.removeListener(handleChange);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, []);
+
+  return status;
+};
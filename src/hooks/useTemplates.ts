@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import type { NoteTemplate, TemplateSettings } from '../types';
+import { getTemplateSettings, sanitizeTemplateSettings, TEMPLATE_SETTINGS_KEY } from '../utils/templates';
+
+// Note templates, kept current while they are edited on the options page
+export const useTemplates = (): NoteTemplate[] => {
+  const [templates, setTemplates] = useState<NoteTemplate[]>([]);
+
+  useEffect(() => {
+    if (typeof chrome === 'undefined' || !chrome.storage?.local) return;
+
+    getTemplateSettings().then((settings) => setTemplates(settings.templates));
+    const handleChange = (changes: { [key: string]: chrome.storage.StorageChange }, area: string) => {
+      if (area === 'local' && changes[TEMPLATE_SETTINGS_KEY]) {
+        setTemplates(sanitizeTemplateSettings(changes[TEMPLATE_SETTINGS_KEY].newValue as TemplateSettings | undefined).templates);
+      }
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }, []);
+
+  return templates;
+};
@@ -1,17 +1,118 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { createRoot } from 'react-dom/client';
 import './index.css';
-import { getAllMemos, saveMemo } from './utils/storage';
-import type { Memo } from './types';
+import { DEFAULT_TRASH_RETENTION_DAYS, getAllMemos, getTrashRetentionDays, TRASH_RETENTION_KEY } from './utils/storage';
+import { DEFAULT_URL_SETTINGS, getUrlSettings, normalizeUrl, saveUrlSettings } from './utils/url';
+import { DEFAULT_DOMAIN_SETTINGS, getDomainSettings, resolveDomain, saveDomainSettings } from './utils/domain';
+import { DEFAULT_SYNC_SETTINGS, getSyncSettings, saveSyncSettings } from './utils/sync';
+import { getDeviceName, saveDeviceName } from './utils/device';
+import { useSyncStatus } from './hooks/useSyncStatus';
+import { cn } from './utils/cn';
+import { downloadFile, downloadMarkdownZip } from './utils/markdownExport';
+import { applyImport, planJsonImport, planMarkdownImport, readImportFiles, type ImportCandidate, type ImportItem } from './utils/importNotes';
+import { backupFileName, createBackup, DEFAULT_BACKUP_SCHEDULE, deleteStoredBackup, getBackupSchedule, getStoredBackup, listBackups, parseBackup, restoreBackupSettings, saveBackupSchedule, storeBackup, type ParsedBackup } from './utils/backup';
+import { ImportPreview } from './components/ImportPreview';
+import { fromBackupAttachment } from './utils/attachments';
+import { BUILTIN_TEMPLATE, createTemplate, DEFAULT_TEMPLATE_SETTINGS, findTemplate, getTemplateSettings, saveTemplateSettings } from './utils/templates';
+import type { Attachment, BackupScheduleSettings, DomainGroupingMode, DomainGroupingSettings, Memo, MemoMessage, NoteTemplate, StoredBackupInfo, SyncBackend, SyncSettings, TemplateSettings, UrlNormalizationSettings } from './types';
+
+const DOMAIN_MODE_OPTIONS: { value: DomainGroupingMode; label: string; description: string }[] = [
+  { value: 'exact', label: 'Exact host', description: 'docs.example.com and example.com keep separate notes.' },
+  { value: 'registrable', label: 'Registrable domain', description: 'All subdomains of example.com (or example.co.uk) share notes.' },
+  { value: 'alias', label: 'Alias groups', description: 'Only the hosts grouped below share notes.' },
+];
+
+const SYNC_BACKEND_OPTIONS: { value: SyncBackend; label: string; description: string }[] = [
+  { value: 'off', label: 'Off', description: 'Notes stay on this device.' },
+  { value: 'browser', label: 'Chrome sync', description: 'Every browser signed in to the same Chrome profile. Holds about 100 KB, so it suits text notes rather than large archives.' },
+  { value: 'webdav', label: 'WebDAV', description: 'A folder on a WebDAV server such as Nextcloud. Each note is stored as a JSON file.' },
+  { value: 'rest', label: 'REST server', description: 'Your own server implementing GET/PUT/DELETE on /notes (see the README).' },
+];
+
+const BACKUP_INTERVAL_OPTIONS: { hours: number; label: string }[] = [
+  { hours: 6, label: 'Every 6 hours' },
+  { hours: 12, label: 'Every 12 hours' },
+  { hours: 24, label: 'Daily' },
+  { hours: 168, label: 'Weekly' },
+];
+
+type ExportScope = 'all' | 'domain' | 'selected';
+
+interface ImportPlan {
+  candidates: ImportCandidate[];
+  backup?: ParsedBackup;
+  attachments?: Attachment[];
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const parseList = (text: string) => text.split(',').map(p => p.trim()).filter(p => p !== '');
+
+// Keeps the raw text while typing so separators aren't swallowed by re-formatting
+const ListInput = ({ value, onChange, placeholder, className }: {
+  value: string[];
+  onChange: (params: string[]) => void;
+  placeholder?: string;
+  className?: string;
+}) => {
+  const [text, setText] = useState(() => value.join(', '));
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parseList(e.target.value));
+      }}
+      placeholder={placeholder}
+      className={className}
+    />
+  );
+};
 
 const Options = () => {
   const [fontFamilySans, setFontFamilySans] = useState('sans-serif');
   const [fontFamilyMono, setFontFamilyMono] = useState('monospace');
   const [fontSize, setFontSize] = useState(16);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const markdownInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
+  const [importError, setImportError] = useState('');
   const [status, setStatus] = useState('');
+  const [urlSettings, setUrlSettings] = useState<UrlNormalizationSettings>(DEFAULT_URL_SETTINGS);
+  const [testUrl, setTestUrl] = useState('');
+  const [urlStatus, setUrlStatus] = useState('');
+  const [urlFormKey, setUrlFormKey] = useState(0);
+  const [domainSettings, setDomainSettings] = useState<DomainGroupingSettings>(DEFAULT_DOMAIN_SETTINGS);
+  // As stored, without unsaved edits; groups notes the way the panel does
+  const [savedDomainSettings, setSavedDomainSettings] = useState<DomainGroupingSettings>(DEFAULT_DOMAIN_SETTINGS);
+  const [testHost, setTestHost] = useState('');
+  const [domainStatus, setDomainStatus] = useState('');
+  const [domainFormKey, setDomainFormKey] = useState(0);
+  const [templateSettings, setTemplateSettings] = useState<TemplateSettings>(DEFAULT_TEMPLATE_SETTINGS);
+  const [testTemplateUrl, setTestTemplateUrl] = useState('');
+  const [templateStatus, setTemplateStatus] = useState('');
+  const [templateFormKey, setTemplateFormKey] = useState(0);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(DEFAULT_SYNC_SETTINGS);
+  const [deviceName, setDeviceName] = useState('');
+  const [syncMessage, setSyncMessage] = useState('');
+  const syncStatus = useSyncStatus();
+  const [exportNotes, setExportNotes] = useState<Memo[]>([]);
+  const [exportScope, setExportScope] = useState<ExportScope>('all');
+  const [exportDomain, setExportDomain] = useState('');
+  const [exportSelection, setExportSelection] = useState<Set<string>>(new Set());
+  const [backupSchedule, setBackupSchedule] = useState<BackupScheduleSettings>(DEFAULT_BACKUP_SCHEDULE);
+  const [backups, setBackups] = useState<StoredBackupInfo[]>([]);
+  const [backupStatus, setBackupStatus] = useState('');
 
-  useEffect(() => {
+  // Also used to show settings restored from a backup
+  const loadSettings = useCallback(() => {
     chrome.storage.local.get(['fontFamilySans', 'fontFamilyMono', 'fontSize'], (result) => {
       if (typeof result.fontFamilySans === 'string') {
         setFontFamilySans(result.fontFamilySans);
@@ -23,8 +124,31 @@ const Options = () => {
         setFontSize(result.fontSize);
       }
     });
+    getUrlSettings().then((settings) => {
+      setUrlSettings(settings);
+      setUrlFormKey((k) => k + 1);
+    });
+    getTrashRetentionDays().then(setTrashRetentionDays);
+    getDomainSettings().then((settings) => {
+      setDomainSettings(settings);
+      setSavedDomainSettings(settings);
+      setDomainFormKey((k) => k + 1);
+    });
+    getTemplateSettings().then((settings) => {
+      setTemplateSettings(settings);
+      setTemplateFormKey((k) => k + 1);
+    });
   }, []);
 
+  useEffect(() => {
+    loadSettings();
+    getSyncSettings().then(setSyncSettings);
+    getDeviceName().then(setDeviceName);
+    getAllMemos().then(setExportNotes);
+    getBackupSchedule().then(setBackupSchedule);
+    listBackups().then(setBackups);
+  }, [loadSettings]);
+
   const saveSettings = () => {
     chrome.storage.local.set({ fontFamilySans, fontFamilyMono, fontSize }, () => {
       setStatus('Settings saved!');
@@ -46,15 +170,117 @@ const Options = () => {
     });
   };
 
+  const saveSync = async () => {
+    await saveDeviceName(deviceName);
+    await saveSyncSettings(syncSettings);
+    setSyncMessage('Sync settings saved!');
+    setTimeout(() => setSyncMessage(''), 2000);
+  };
+
+  const syncNow = () => {
+    chrome.runtime.sendMessage({ type: 'SYNC_NOW' } satisfies MemoMessage);
+  };
+
+  const updateSiteRule = (index: number, host: string, keepParams: string[]) => {
+    setUrlSettings({
+      ...urlSettings,
+      siteRules: urlSettings.siteRules.map((rule, i) => (i === index ? { host, keepParams } : rule)),
+    });
+  };
+
+  const saveUrlRules = async () => {
+    const cleaned: UrlNormalizationSettings = {
+      ...urlSettings,
+      siteRules: urlSettings.siteRules.filter(rule => rule.host.trim() !== ''),
+    };
+    await saveUrlSettings(cleaned);
+    setUrlSettings(cleaned);
+    setUrlFormKey((k) => k + 1);
+    setUrlStatus('Matching rules saved!');
+    setTimeout(() => setUrlStatus(''), 2000);
+  };
+
+  const resetUrlRules = async () => {
+    await saveUrlSettings(DEFAULT_URL_SETTINGS);
+    setUrlSettings(DEFAULT_URL_SETTINGS);
+    setUrlFormKey((k) => k + 1);
+    setUrlStatus('Matching rules reset to default!');
+    setTimeout(() => setUrlStatus(''), 2000);
+  };
+
+  const saveDomainRules = async () => {
+    const cleaned: DomainGroupingSettings = {
+      ...domainSettings,
+      aliasGroups: domainSettings.aliasGroups.filter(group => group.length > 0),
+    };
+    await saveDomainSettings(cleaned);
+    setDomainSettings(cleaned);
+    setSavedDomainSettings(cleaned);
+    setDomainFormKey((k) => k + 1);
+    setDomainStatus('Grouping saved!');
+    setTimeout(() => setDomainStatus(''), 2000);
+  };
+
+  const updateTemplate = (index: number, changes: Partial<NoteTemplate>) => {
+    setTemplateSettings({
+      templates: templateSettings.templates.map((template, i) => (i === index ? { ...template, ...changes } : template)),
+    });
+  };
+
+  // The first matching template wins, so the order matters
+  const moveTemplateUp = (index: number) => {
+    const templates = [...templateSettings.templates];
+    [templates[index - 1], templates[index]] = [templates[index], templates[index - 1]];
+    setTemplateSettings({ templates });
+    setTemplateFormKey((k) => k + 1);
+  };
+
+  const saveTemplates = async () => {
+    await saveTemplateSettings(templateSettings);
+    const saved = await getTemplateSettings();
+    setTemplateSettings(saved);
+    setTemplateFormKey((k) => k + 1);
+    setTemplateStatus('Templates saved!');
+    setTimeout(() => setTemplateStatus(''), 2000);
+  };
+
+  const saveTrashRetention = () => {
+    const days = Math.max(1, Math.round(trashRetentionDays));
+    setTrashRetentionDays(days);
+    chrome.storage.local.set({ [TRASH_RETENTION_KEY]: days }, () => {
+      setStatus('Trash settings saved!');
+      setTimeout(() => setStatus(''), 2000);
+    });
+  };
+
   const handleExport = async () => {
-    const allMemos = await getAllMemos();
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(allMemos));
-    const downloadAnchorNode = document.createElement('a');
-    downloadAnchorNode.setAttribute("href", dataStr);
-    downloadAnchorNode.setAttribute("download", "website_notes_backup.json");
-    document.body.appendChild(downloadAnchorNode);
-    downloadAnchorNode.click();
-    downloadAnchorNode.remove();
+    const backup = await createBackup({ includeAttachments: true });
+    downloadFile(JSON.stringify(backup), backupFileName(), 'application/json');
+  };
+
+  const exportDomains = [...new Set(exportNotes.map(memo => resolveDomain(memo.domain, savedDomainSettings)))].sort();
+  // The first group when nothing is picked yet, or the pick no longer exists after regrouping
+  const selectedExportDomain = exportDomains.includes(exportDomain) ? exportDomain : exportDomains[0];
+
+  const notesToExport = exportScope === 'all'
+    ? exportNotes
+    : exportScope === 'domain'
+      ? exportNotes.filter(memo => resolveDomain(memo.domain, savedDomainSettings) === selectedExportDomain)
+      : exportNotes.filter(memo => exportSelection.has(memo.id));
+
+  const toggleExportSelection = (id: string) => {
+    const next = new Set(exportSelection);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setExportSelection(next);
+  };
+
+  const handleMarkdownExport = () => {
+    const label = exportScope === 'domain' ? selectedExportDomain : 'website-notes';
+    downloadMarkdownZip(notesToExport, label).catch((err) => console.error("Markdown export failed", err));
   };
 
   const handleImportClick = () => {
@@ -63,44 +289,100 @@ const Options = () => {
 
   const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = async (event) => {
+    let json: unknown;
+    try {
+      json = JSON.parse(await file.text());
+    } catch (err) {
+      console.error("Failed to parse JSON", err);
+      alert(`${file.name} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    await planBackupRestore(json, file.name);
+  };
+
+  const planBackupRestore = async (json: unknown, fileName: string) => {
+    try {
+      const backup = parseBackup(json);
+      setImportPlan({ candidates: await planJsonImport(backup, fileName), backup, attachments: backup.attachments.map(fromBackupAttachment) });
+    } catch (err) {
+      console.error("Invalid backup", err);
+      alert(`Cannot restore ${fileName}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleMarkdownFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Allow picking the same files again after a cancel
+    e.target.value = '';
+    if (files.length === 0) return;
+    try {
+      const { sources, attachments } = await readImportFiles(files);
+      setImportPlan({ candidates: await planMarkdownImport(sources), attachments });
+    } catch (err) {
+      console.error("Failed to read Markdown files", err);
+      alert("Could not read the selected files");
+    }
+  };
+
+  const confirmImport = async (items: ImportItem[], restoreSettings: boolean) => {
+    setImportError('');
+    // Throws before anything is saved; the preview stays open and shows why
+    const count = await applyImport(items, importPlan?.attachments);
+    setImportPlan(null);
+    getAllMemos().then(setExportNotes);
+
+    const settings = restoreSettings ? importPlan?.backup?.settings : undefined;
+    if (settings) {
       try {
-        const json = JSON.parse(event.target?.result as string);
-        if (Array.isArray(json)) {
-            let count = 0;
-            for (const m of json) {
-                if (
-                  m && 
-                  typeof m.id === 'string' && 
-                  typeof m.domain === 'string' &&
-                  typeof m.content === 'string'
-                ) {
-                    const sanitizedMemo: Memo = {
-                      id: m.id,
-                      title: m.title || 'Untitled',
-                      content: m.content,
-                      domain: m.domain,
-                      url: typeof m.url === 'string' ? m.url : '',
-                      isUrlSpecific: !!m.isUrlSpecific,
-                      createdAt: typeof m.createdAt === 'number' ? m.createdAt : Date.now(),
-                      updatedAt: typeof m.updatedAt === 'number' ? m.updatedAt : Date.now(),
-                    };
-                    await saveMemo(sanitizedMemo);
-                    count++;
-                }
-            }
-            setStatus(`Imported ${count} notes successfully!`);
-            setTimeout(() => setStatus(''), 3000);
-        }
+        await restoreBackupSettings(settings);
       } catch (err) {
-        console.error("Failed to parse JSON", err);
-        alert("Invalid JSON file");
+        // The notes are in by now, so the preview can't report this as a failed import
+        console.error("Failed to restore settings", err);
+        setImportError(`Imported ${count} notes, but the settings could not be restored: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      } finally {
+        loadSettings();
       }
-    };
-    reader.readAsText(file);
+    }
+    setStatus(settings ? `Imported ${count} notes and restored settings!` : `Imported ${count} notes successfully!`);
+    setTimeout(() => setStatus(''), 3000);
+  };
+
+  const saveBackupSettings = async () => {
+    await saveBackupSchedule(backupSchedule);
+    setBackupStatus('Backup settings saved!');
+    setTimeout(() => setBackupStatus(''), 2000);
+  };
+
+  const backUpNow = async () => {
+    try {
+      await storeBackup({ force: true });
+      setBackups(await listBackups());
+      setBackupStatus('Backup created!');
+    } catch (err) {
+      console.error("Backup failed", err);
+      setBackupStatus(`Backup failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    setTimeout(() => setBackupStatus(''), 3000);
+  };
+
+  const restoreStoredBackup = async (info: StoredBackupInfo) => {
+    const json = await getStoredBackup(info.id);
+    await planBackupRestore(json, `Backup of ${new Date(info.createdAt).toLocaleString()}`);
+  };
+
+  const downloadStoredBackup = async (info: StoredBackupInfo) => {
+    const json = await getStoredBackup(info.id);
+    downloadFile(JSON.stringify(json), backupFileName(new Date(info.createdAt)), 'application/json');
+  };
+
+  const removeStoredBackup = async (info: StoredBackupInfo) => {
+    if (!confirm(`Delete the backup from ${new Date(info.createdAt).toLocaleString()}?`)) return;
+    await deleteStoredBackup(info.id);
+    setBackups(await listBackups());
   };
 
   return (
@@ -164,6 +446,437 @@ const Options = () => {
           </div>
         </div>
 
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow space-y-6">
+          <h2 className="text-xl font-semibold">Page Matching</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Controls which parts of a URL decide whether two addresses are the same page. Used by page notes, the badge and the context menu.
+          </p>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Ignored Query Parameters</label>
+              <ListInput
+                key={urlFormKey}
+                value={urlSettings.stripParams}
+                onChange={(stripParams) => setUrlSettings({ ...urlSettings, stripParams })}
+                placeholder="e.g. utm_*, fbclid, sessionid"
+                className="w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">Comma separated. A trailing * matches any suffix.</p>
+            </div>
+
+            <div className="flex gap-6">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={urlSettings.ignoreHash}
+                  onChange={(e) => setUrlSettings({ ...urlSettings, ignoreHash: e.target.checked })}
+                />
+                Ignore #fragments
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={urlSettings.ignoreTrailingSlash}
+                  onChange={(e) => setUrlSettings({ ...urlSettings, ignoreTrailingSlash: e.target.checked })}
+                />
+                Ignore trailing slash
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Site Rules</label>
+              <p className="text-xs text-gray-500 mb-2">On these sites, only the listed query parameters identify a page (e.g. <code>v</code> on youtube.com).</p>
+              <div className="space-y-2">
+                {urlSettings.siteRules.map((rule, i) => (
+                  <div key={`${urlFormKey}-${i}`} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={rule.host}
+                      onChange={(e) => updateSiteRule(i, e.target.value, rule.keepParams)}
+                      placeholder="example.com"
+                      className="w-1/3 p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+                    />
+                    <ListInput
+                      value={rule.keepParams}
+                      onChange={(keepParams) => updateSiteRule(i, rule.host, keepParams)}
+                      placeholder="id, page"
+                      className="flex-1 p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+                    />
+                    <button
+                      onClick={() => {
+                        setUrlSettings({ ...urlSettings, siteRules: urlSettings.siteRules.filter((_, j) => j !== i) });
+                        setUrlFormKey((k) => k + 1);
+                      }}
+                      className="px-3 py-2 text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                      title="Remove rule"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => setUrlSettings({ ...urlSettings, siteRules: [...urlSettings.siteRules, { host: '', keepParams: [] }] })}
+                className="mt-2 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                + Add site rule
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Test a URL</label>
+              <input
+                type="text"
+                value={testUrl}
+                onChange={(e) => setTestUrl(e.target.value)}
+                placeholder="https://www.youtube.com/watch?v=abc&utm_source=x#t=10"
+                className="w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+              />
+              {testUrl && (
+                <p className="text-xs text-gray-500 mt-1 break-all">Matches as: <code>{normalizeUrl(testUrl, urlSettings)}</code></p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <button 
+              onClick={saveUrlRules}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded font-medium"
+            >
+              Save Rules
+            </button>
+            <button 
+              onClick={resetUrlRules}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 rounded font-medium"
+            >
+              Reset to Default
+            </button>
+            {urlStatus && <span className="text-green-600 dark:text-green-400">{urlStatus}</span>}
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow space-y-6">
+          <h2 className="text-xl font-semibold">Domain Grouping</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Decides which hosts share the same notes in the sidebar and the badge.
+          </p>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {DOMAIN_MODE_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-start gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="domainMode"
+                    className="mt-1"
+                    checked={domainSettings.mode === option.value}
+                    onChange={() => setDomainSettings({ ...domainSettings, mode: option.value })}
+                  />
+                  <span>
+                    <span className="font-medium">{option.label}</span>
+                    <span className="block text-xs text-gray-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            {domainSettings.mode === 'alias' && (
+              <div>
+                <label className="block text-sm font-medium mb-1">Alias Groups</label>
+                <p className="text-xs text-gray-500 mb-2">Comma separated hosts, e.g. <code>github.com, gist.github.com</code>. The first host names the group.</p>
+                <div className="space-y-2">
+                  {domainSettings.aliasGroups.map((group, i) => (
+                    <div key={`${domainFormKey}-${i}`} className="flex gap-2">
+                      <ListInput
+                        value={group}
+                        onChange={(hosts) => setDomainSettings({
+                          ...domainSettings,
+                          aliasGroups: domainSettings.aliasGroups.map((g, j) => (j === i ? hosts : g)),
+                        })}
+                        placeholder="github.com, gist.github.com"
+                        className="flex-1 p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+                      />
+                      <button
+                        onClick={() => {
+                          setDomainSettings({ ...domainSettings, aliasGroups: domainSettings.aliasGroups.filter((_, j) => j !== i) });
+                          setDomainFormKey((k) => k + 1);
+                        }}
+                        className="px-3 py-2 text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                        title="Remove group"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setDomainSettings({ ...domainSettings, aliasGroups: [...domainSettings.aliasGroups, []] })}
+                  className="mt-2 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  + Add alias group
+                </button>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Test a Host</label>
+              <input
+                type="text"
+                value={testHost}
+                onChange={(e) => setTestHost(e.target.value)}
+                placeholder="docs.example.co.uk"
+                className="w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+              />
+              {testHost && (
+                <p className="text-xs text-gray-500 mt-1 break-all">Grouped as: <code>{resolveDomain(testHost.trim(), domainSettings)}</code></p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <button 
+              onClick={saveDomainRules}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded font-medium"
+            >
+              Save Grouping
+            </button>
+            {domainStatus && <span className="text-green-600 dark:text-green-400">{domainStatus}</span>}
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow space-y-6">
+          <h2 className="text-xl font-semibold">Note Templates</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            New notes start from the first template whose sites match the page, or from a blank note with front matter. Any template can also be picked with "New Note from Template" in the side panel.
+          </p>
+          <p className="text-xs text-gray-500">
+            Variables: <code>{'{{url}}'}</code>, <code>{'{{title}}'}</code> (page title), <code>{'{{domain}}'}</code>, <code>{'{{date}}'}</code> or <code>{'{{date:YYYY-MM-DD}}'}</code> (YYYY, MM, DD, HH, mm, ss) and <code>{'{{selection}}'}</code> (text selected on the page, as a quote).
+          </p>
+
+          <div className="space-y-4">
+            {templateSettings.templates.map((template, i) => (
+              <div key={`${templateFormKey}-${template.id}`} className="p-4 rounded border border-gray-200 dark:border-gray-700 space-y-3">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={template.name}
+                    onChange={(e) => updateTemplate(i, { name: e.target.value })}
+                    placeholder="Template name"
+                    className="flex-1 p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent font-medium"
+                  />
+                  <button
+                    onClick={() => moveTemplateUp(i)}
+                    disabled={i === 0}
+                    className="px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded disabled:opacity-30"
+                    title="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => {
+                      setTemplateSettings({ templates: templateSettings.templates.filter((_, j) => j !== i) });
+                      setTemplateFormKey((k) => k + 1);
+                    }}
+                    className="px-3 py-2 text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                    title="Remove template"
+                  >
+                    ✕
+                  </button>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Sites</label>
+                  <ListInput
+                    value={template.patterns}
+                    onChange={(patterns) => updateTemplate(i, { patterns })}
+                    placeholder="github.com/*/issues/*, docs.python.org"
+                    className="w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Comma separated. A host matches its subdomains; a pattern with / or * matches URLs starting with it.</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Note Title</label>
+                  <input
+                    type="text"
+                    value={template.title}
+                    onChange={(e) => updateTemplate(i, { title: e.target.value })}
+                    placeholder="Note: {{title}}"
+                    className="w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Note Text</label>
+                  <textarea
+                    value={template.body}
+                    onChange={(e) => updateTemplate(i, { body: e.target.value })}
+                    rows={8}
+                    className="w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent font-mono text-sm"
+                  />
+                </div>
+              </div>
+            ))}
+            <button
+              onClick={() => setTemplateSettings({ templates: [...templateSettings.templates, createTemplate()] })}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              + Add template
+            </button>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Test a URL</label>
+              <input
+                type="text"
+                value={testTemplateUrl}
+                onChange={(e) => setTestTemplateUrl(e.target.value)}
+                placeholder="https://github.com/owner/repo/issues/1"
+                className="w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+              />
+              {testTemplateUrl && (
+                <p className="text-xs text-gray-500 mt-1 break-all">New notes use: <code>{(findTemplate(testTemplateUrl.trim(), templateSettings.templates) || BUILTIN_TEMPLATE).name}</code></p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <button
+              onClick={saveTemplates}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded font-medium"
+            >
+              Save Templates
+            </button>
+            {templateStatus && <span className="text-green-600 dark:text-green-400">{templateStatus}</span>}
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow space-y-6">
+          <h2 className="text-xl font-semibold">Sync</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Keeps a copy of your notes on another backend. Edits made offline are queued and sent once the backend is reachable again.
+          </p>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {SYNC_BACKEND_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-start gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="syncBackend"
+                    className="mt-1"
+                    checked={syncSettings.backend === option.value}
+                    onChange={() => setSyncSettings({ ...syncSettings, backend: option.value })}
+                  />
+                  <span>
+                    <span className="font-medium">{option.label}</span>
+                    <span className="block text-xs text-gray-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            {syncSettings.backend === 'webdav' && (
+              <div className="space-y-2">
+                <div>
+                  <label className="block text-sm font-medium mb-1">Folder URL</label>
+                  <input
+                    type="url"
+                    value={syncSettings.webdav.url}
+                    onChange={(e) => setSyncSettings({ ...syncSettings, webdav: { ...syncSettings.webdav, url: e.target.value } })}
+                    placeholder="https://cloud.example.com/remote.php/dav/files/me/notes/"
+                    className="w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium mb-1">Username</label>
+                    <input
+                      type="text"
+                      value={syncSettings.webdav.username}
+                      onChange={(e) => setSyncSettings({ ...syncSettings, webdav: { ...syncSettings.webdav, username: e.target.value } })}
+                      className="w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium mb-1">Password</label>
+                    <input
+                      type="password"
+                      value={syncSettings.webdav.password}
+                      onChange={(e) => setSyncSettings({ ...syncSettings, webdav: { ...syncSettings.webdav, password: e.target.value } })}
+                      className="w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">Use an app password where the server offers one. It is stored unencrypted in this browser profile.</p>
+              </div>
+            )}
+
+            {syncSettings.backend === 'rest' && (
+              <div className="space-y-2">
+                <div>
+                  <label className="block text-sm font-medium mb-1">Server URL</label>
+                  <input
+                    type="url"
+                    value={syncSettings.rest.url}
+                    onChange={(e) => setSyncSettings({ ...syncSettings, rest: { ...syncSettings.rest, url: e.target.value } })}
+                    placeholder="http://localhost:8787/"
+                    className="w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Access Token</label>
+                  <input
+                    type="password"
+                    value={syncSettings.rest.token}
+                    onChange={(e) => setSyncSettings({ ...syncSettings, rest: { ...syncSettings.rest, token: e.target.value } })}
+                    placeholder="Sent as a Bearer token (optional)"
+                    className="w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Device Name</label>
+              <input
+                type="text"
+                value={deviceName}
+                onChange={(e) => setDeviceName(e.target.value)}
+                className="w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">Shown in the title of the copy kept when two devices edit the same note at once.</p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <button
+              onClick={saveSync}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded font-medium"
+            >
+              Save Sync Settings
+            </button>
+            {syncStatus.state !== 'off' && (
+              <button
+                onClick={syncNow}
+                disabled={syncStatus.state === 'syncing'}
+                className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 rounded"
+              >
+                Sync Now
+              </button>
+            )}
+            {syncMessage && <span className="text-green-600 dark:text-green-400">{syncMessage}</span>}
+          </div>
+
+          {syncStatus.state !== 'off' && (
+            <p className={cn('text-sm', syncStatus.state === 'error' ? 'text-red-600 dark:text-red-400' : 'text-gray-500')}>
+              {syncStatus.state === 'syncing' && 'Syncing…'}
+              {syncStatus.state === 'error' && `Sync failed: ${syncStatus.error}`}
+              {syncStatus.state === 'offline' && `Offline: ${syncStatus.pending || 0} ${syncStatus.pending === 1 ? 'change' : 'changes'} waiting to sync.`}
+              {syncStatus.state === 'idle' && (syncStatus.lastSyncedAt ? `Last synced ${new Date(syncStatus.lastSyncedAt).toLocaleString()}` : 'Waiting for the first sync')}
+              {syncStatus.state === 'idle' && !!syncStatus.conflicts && ` · ${syncStatus.conflicts} conflicting ${syncStatus.conflicts === 1 ? 'copy' : 'copies'} created`}
+              {syncStatus.state === 'idle' && !!syncStatus.skipped && ` · ${syncStatus.skipped} ${syncStatus.skipped === 1 ? 'note' : 'notes'} not synced: ${syncStatus.error}`}
+            </p>
+          )}
+        </div>
+
         <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow space-y-6">
           <h2 className="text-xl font-semibold">Data Management</h2>
           <div className="flex gap-4">
@@ -171,13 +884,13 @@ const Options = () => {
               onClick={handleExport}
               className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 rounded"
             >
-              Export All Notes (JSON)
+              Export Backup (JSON)
             </button>
             <button 
               onClick={handleImportClick}
               className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 rounded"
             >
-              Import Notes (JSON)
+              Restore Backup (JSON)
             </button>
             <input 
               type="file" 
@@ -187,8 +900,213 @@ const Options = () => {
               accept=".json" 
             />
           </div>
+          {importError && <p className="text-sm text-red-600 dark:text-red-400">{importError}</p>}
+          <div>
+            <label className="block text-sm font-medium mb-1">Import Markdown</label>
+            <p className="text-xs text-gray-500 mb-2">Import <code>.md</code> files, a ZIP of them, or a whole folder such as an Obsidian vault. <code>URL</code>, <code>title</code>, <code>created_at</code> and <code>updated_at</code> in the front matter are used when present. You can review the result before anything is saved.</p>
+            <div className="flex gap-4">
+              <button
+                onClick={() => markdownInputRef.current?.click()}
+                className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 rounded"
+              >
+                Choose Files or ZIP
+              </button>
+              <button
+                onClick={() => folderInputRef.current?.click()}
+                className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 rounded"
+              >
+                Choose Folder
+              </button>
+            </div>
+            <input
+              type="file"
+              ref={markdownInputRef}
+              onChange={handleMarkdownFiles}
+              className="hidden"
+              accept=".md,.markdown,.zip"
+              multiple
+            />
+            <input
+              type="file"
+              // webkitdirectory isn't in React's input attributes
+              ref={(input) => {
+                folderInputRef.current = input;
+                input?.setAttribute('webkitdirectory', '');
+              }}
+              onChange={handleMarkdownFiles}
+              className="hidden"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Export as Markdown (ZIP)</label>
+            <p className="text-xs text-gray-500 mb-2">One folder per domain with a <code>.md</code> file per note, including its front matter. Opens directly as an Obsidian vault.</p>
+            <div className="flex flex-wrap items-center gap-4 text-sm mb-2">
+              {(['all', 'domain', 'selected'] as const).map(scope => (
+                <label key={scope} className="flex items-center gap-1">
+                  <input
+                    type="radio"
+                    name="exportScope"
+                    checked={exportScope === scope}
+                    onChange={() => setExportScope(scope)}
+                  />
+                  {scope === 'all' ? 'All notes' : scope === 'domain' ? 'One domain' : 'Selected notes'}
+                </label>
+              ))}
+            </div>
+            {exportScope === 'domain' && (
+              <select
+                value={selectedExportDomain || ''}
+                onChange={(e) => setExportDomain(e.target.value)}
+                className="mb-2 p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent text-sm"
+              >
+                {exportDomains.map(domain => <option key={domain} value={domain}>{domain}</option>)}
+              </select>
+            )}
+            {exportScope === 'selected' && (
+              <div className="mb-2 max-h-60 overflow-y-auto rounded border border-gray-300 dark:border-gray-600 divide-y divide-gray-100 dark:divide-gray-700">
+                {exportNotes.map(memo => (
+                  <label key={memo.id} className="flex items-center gap-2 px-2 py-1 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={exportSelection.has(memo.id)}
+                      onChange={() => toggleExportSelection(memo.id)}
+                    />
+                    <span className="truncate flex-1">{memo.title || 'Untitled'}</span>
+                    <span className="text-xs text-gray-400 shrink-0">{memo.domain}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={handleMarkdownExport}
+              disabled={notesToExport.length === 0}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 rounded"
+            >
+              Export {notesToExport.length} {notesToExport.length === 1 ? 'Note' : 'Notes'}
+            </button>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Empty Trash After (days)</label>
+            <div className="flex items-center gap-4">
+              <input
+                type="number"
+                min="1"
+                value={trashRetentionDays}
+                onChange={(e) => setTrashRetentionDays(Number(e.target.value))}
+                className="w-24 p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+              />
+              <button
+                onClick={saveTrashRetention}
+                className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 rounded"
+              >
+                Save
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Deleted notes stay in the trash for this many days before they are removed for good.</p>
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow space-y-6">
+          <h2 className="text-xl font-semibold">Automatic Backups</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Keeps recent backups of all notes and settings in this browser. A backup is skipped when no note changed since the last one. Sync credentials are never included.
+          </p>
+
+          <div className="space-y-4">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={backupSchedule.enabled}
+                onChange={(e) => setBackupSchedule({ ...backupSchedule, enabled: e.target.checked })}
+              />
+              Back up automatically
+            </label>
+            <div className="flex gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Frequency</label>
+                <select
+                  value={backupSchedule.intervalHours}
+                  onChange={(e) => setBackupSchedule({ ...backupSchedule, intervalHours: Number(e.target.value) })}
+                  disabled={!backupSchedule.enabled}
+                  className="p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent disabled:opacity-50"
+                >
+                  {BACKUP_INTERVAL_OPTIONS.map(option => (
+                    <option key={option.hours} value={option.hours}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Backups to Keep</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={backupSchedule.keep}
+                  onChange={(e) => setBackupSchedule({ ...backupSchedule, keep: Number(e.target.value) })}
+                  className="w-24 p-2 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <button
+              onClick={saveBackupSettings}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded font-medium"
+            >
+              Save Backup Settings
+            </button>
+            <button
+              onClick={backUpNow}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 rounded"
+            >
+              Back Up Now
+            </button>
+            {backupStatus && <span className="text-green-600 dark:text-green-400">{backupStatus}</span>}
+          </div>
+
+          <div className="border border-gray-200 dark:border-gray-700 rounded divide-y divide-gray-100 dark:divide-gray-700">
+            {backups.length === 0 && (
+              <div className="p-3 text-sm text-gray-400 text-center">No backups yet.</div>
+            )}
+            {backups.map(info => (
+              <div key={info.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium">{new Date(info.createdAt).toLocaleString()}</div>
+                  <div className="text-xs text-gray-500">{info.noteCount} {info.noteCount === 1 ? 'note' : 'notes'} · {formatBytes(info.size)}</div>
+                </div>
+                <button
+                  onClick={() => restoreStoredBackup(info)}
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Restore
+                </button>
+                <button
+                  onClick={() => downloadStoredBackup(info)}
+                  className="text-gray-600 dark:text-gray-300 hover:underline"
+                >
+                  Download
+                </button>
+                <button
+                  onClick={() => removeStoredBackup(info)}
+                  className="text-red-600 dark:text-red-400 hover:underline"
+                >
+                  Delete
+                </button>
+              </div>
+            ))}
+          </div>
         </div>
       </div>
+
+      {importPlan && (
+        <ImportPreview
+          candidates={importPlan.candidates}
+          backup={importPlan.backup}
+          onConfirm={confirmImport}
+          onCancel={() => setImportPlan(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,139 @@
+import { vi } from 'vitest';
+
+// In-memory stand-ins for the parts of the chrome.* API the extension uses.
+// Values are cloned on the way in and out, like the real storage does.
+
+type Listener<A extends unknown[]> = (...args: A) => void;
+
+export interface FakeEvent<A extends unknown[]> {
+  addListener: (listener: Listener<A>) => void;
+  removeListener: (listener: Listener<A>) => void;
+  hasListener: (listener: Listener<A>) => boolean;
+  dispatch: (...args: A) => void;
+}
+
+const createEvent = <A extends unknown[]>(): FakeEvent<A> => {
+  const listeners = new Set<Listener<A>>();
+  return {
+    addListener: (listener) => listeners.add(listener),
+    removeListener: (listener) => listeners.delete(listener),
+    hasListener: (listener) => listeners.has(listener),
+    dispatch: (...args) => [...listeners].forEach((listener) => listener(...args)),
+  };
+};
+
+type StorageChanges = Record<string, chrome.storage.StorageChange>;
+type StorageKeys = string | string[] | Record<string, unknown> | null | undefined;
+
+export interface FakeStorageArea {
+  items: Map<string, unknown>;
+  get: (keys?: StorageKeys) => Promise<Record<string, unknown>>;
+  set: (items: Record<string, unknown>) => Promise<void>;
+  remove: (keys: string | string[]) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+const createStorageArea = (
+  areaName: string,
+  onChanged: FakeEvent<[StorageChanges, string]>,
+): FakeStorageArea => {
+  const items = new Map<string, unknown>();
+
+  const emit = (changes: StorageChanges) => {
+    if (Object.keys(changes).length > 0) onChanged.dispatch(changes, areaName);
+  };
+
+  return {
+    items,
+    get: async (keys) => {
+      const result: Record<string, unknown> = {};
+      if (keys === null || keys === undefined) {
+        items.forEach((value, key) => {
+          result[key] = structuredClone(value);
+        });
+        return result;
+      }
+      const defaults = typeof keys === 'object' && !Array.isArray(keys) ? keys : {};
+      const names = typeof keys === 'string' ? [keys] : Array.isArray(keys) ? keys : Object.keys(keys);
+      names.forEach((key) => {
+        if (items.has(key)) {
+          result[key] = structuredClone(items.get(key));
+        } else if (key in defaults) {
+          result[key] = defaults[key];
+        }
+      });
+      return result;
+    },
+    set: async (next) => {
+      const changes: StorageChanges = {};
+      Object.entries(next).forEach(([key, value]) => {
+        changes[key] = { oldValue: items.get(key), newValue: structuredClone(value) };
+        items.set(key, structuredClone(value));
+      });
+      emit(changes);
+    },
+    remove: async (keys) => {
+      const changes: StorageChanges = {};
+      (typeof keys === 'string' ? [keys] : keys).forEach((key) => {
+        if (!items.has(key)) return;
+        changes[key] = { oldValue: items.get(key) };
+        items.delete(key);
+      });
+      emit(changes);
+    },
+    clear: async () => {
+      const changes: StorageChanges = {};
+      items.forEach((value, key) => {
+        changes[key] = { oldValue: value };
+      });
+      items.clear();
+      emit(changes);
+    },
+  };
+};
+
+// Alarms are only recorded; tests fire them by calling the handler themselves
+const createAlarms = () => {
+  const alarms = new Map<string, chrome.alarms.Alarm>();
+  return {
+    alarms,
+    get: vi.fn(async (name: string) => alarms.get(name)),
+    create: vi.fn(async (name: string, info: chrome.alarms.AlarmCreateInfo) => {
+      const delay = info.delayInMinutes ?? info.periodInMinutes ?? 0;
+      alarms.set(name, { name, scheduledTime: info.when ?? Date.now() + delay * 60 * 1000, periodInMinutes: info.periodInMinutes });
+    }),
+    clear: vi.fn(async (name: string) => alarms.delete(name)),
+  };
+};
+
+export const createFakeChrome = () => {
+  const onChanged = createEvent<[StorageChanges, string]>();
+  return {
+    storage: {
+      local: createStorageArea('local', onChanged),
+      sync: createStorageArea('sync', onChanged),
+      session: createStorageArea('session', onChanged),
+      onChanged,
+    },
+    runtime: {
+      sendMessage: vi.fn<(message: unknown) => Promise<unknown>>(async () => undefined),
+      onMessage: createEvent<[unknown, chrome.runtime.MessageSender, (response?: unknown) => void]>(),
+    },
+    alarms: createAlarms(),
+    tabs: {
+      query: vi.fn<(query: chrome.tabs.QueryInfo) => Promise<Partial<chrome.tabs.Tab>[]>>(async () => [{ id: 1, windowId: 1 }]),
+    },
+  };
+};
+
+export type FakeChrome = ReturnType<typeof createFakeChrome>;
+
+// Replaces the global `chrome` with a fresh, empty fake and returns it
+export const installFakeChrome = (): FakeChrome => {
+  const fake = createFakeChrome();
+  vi.stubGlobal('chrome', fake);
+  return fake;
+};
+
+// The fake installed for the current test
+export const fakeChrome = (): FakeChrome => chrome as unknown as FakeChrome;
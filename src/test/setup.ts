@@ -0,0 +1,10 @@
+import { beforeEach } from 'vitest';
+import { installFakeChrome } from './fakeChrome';
+
+// Modules check for `chrome` when they are loaded, so it has to exist before
+// any test imports them; every test then starts from empty storage.
+installFakeChrome();
+
+beforeEach(() => {
+  installFakeChrome();
+});
@@ -1,16 +1,192 @@
+// A highlighted passage on a page. The quote finds the text again after the
+// page changed; the position tells repeated occurrences apart.
+export interface MemoAnchor {
+  id: string;
+  url: string; // Page the passage was highlighted on
+  quote: { exact: string; prefix: string; suffix: string };
+  position: { start: number; end: number }; // Offsets into the page's text content
+  createdAt: number;
+}
+
 export interface Memo {
   id: string;
   title: string;
   content: string;
   domain: string;
   url: string;
-  isUrlSpecific: boolean;
+  isUrlSpecific: boolean; // When true, the note only shows up on its own URL
+  tags: string[]; // Mirrors the `tags` front-matter key
   createdAt: number;
   updatedAt: number;
+  deletedAt?: number; // Set while the note sits in the trash
+  deviceId?: string; // Device that made the last change, used to settle sync conflicts
+  anchors?: MemoAnchor[]; // Passages highlighted on the page for this note
+  remindAt?: number; // Mirrors the `remind` front-matter key
+}
+
+export interface MemoRevision {
+  id: string;
+  memoId: string;
+  title: string;
+  content: string;
+  savedAt: number;
+}
+
+// An image pasted or dropped into a note. Kept in IndexedDB on this device
+// only and linked from the Markdown as `attachment:<id>`.
+export interface Attachment {
+  id: string;
+  name: string;
+  blob: Blob;
+  createdAt: number;
+  orphanedAt?: number; // Set by the cleanup while no note links to it
+}
+
+export type MemoStore = Record<string, Memo>; // Keyed by ID, the layout of the legacy `memos` key
+
+// What the list views need to pick notes without loading their content
+export type MemoIndexEntry = Pick<Memo, 'id' | 'domain' | 'url' | 'isUrlSpecific' | 'tags' | 'updatedAt' | 'deletedAt' | 'remindAt'>;
+
+export type MemoIndex = Record<string, MemoIndexEntry>;
+
+export interface UrlSiteRule {
+  host: string; // Matches the host itself and its subdomains
+  keepParams: string[]; // Only these query params identify a page on this site
+}
+
+export interface UrlNormalizationSettings {
+  stripParams: string[]; // Trailing `*` matches a prefix, e.g. `utm_*`
+  siteRules: UrlSiteRule[];
+  ignoreHash: boolean;
+  ignoreTrailingSlash: boolean;
+}
+
+export type DomainGroupingMode = 'exact' | 'registrable' | 'alias';
+
+export interface DomainGroupingSettings {
+  mode: DomainGroupingMode;
+  aliasGroups: string[][]; // Hosts in the same group share their notes
+}
+
+export interface ScopeSettings {
+  url: UrlNormalizationSettings;
+  domain: DomainGroupingSettings;
+}
+
+export type ViewMode = 'page' | 'domain' | 'all' | 'trash' | 'reminders';
+
+export type SyncBackend = 'off' | 'browser' | 'webdav' | 'rest';
+
+export interface SyncSettings {
+  backend: SyncBackend;
+  webdav: { url: string; username: string; password: string };
+  rest: { url: string; token: string };
+}
+
+export type SyncState = 'off' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  lastSyncedAt?: number;
+  error?: string;
+  conflicts?: number; // Conflicting copies created by the last sync run
+  pending?: number; // Local changes still waiting in the offline queue
+  skipped?: number; // Notes the last sync couldn't store remotely; kept here and retried, `error` says why
+}
+
+// Text new notes start from, picked by the page they are created on
+export interface NoteTemplate {
+  id: string;
+  name: string;
+  title: string; // Title of new notes; empty uses `Note: <page title>`
+  body: string; // Text of new notes, front matter included
+  patterns: string[]; // Hosts (subdomains included) or URL patterns with `*` that use this template
+}
+
+export interface TemplateSettings {
+  templates: NoteTemplate[]; // The first template matching a page is used for its new notes
+}
+
+// Settings carried in a backup. Sync credentials are left out on purpose.
+export interface BackupSettings {
+  fontFamilySans?: string;
+  fontFamilyMono?: string;
+  fontSize?: number;
+  url?: UrlNormalizationSettings;
+  domain?: DomainGroupingSettings;
+  trashRetentionDays?: number;
+  templates?: TemplateSettings;
+}
+
+// An attachment in a backup, with its bytes as base64
+export interface BackupAttachment {
+  id: string;
+  name: string;
+  type: string;
+  data: string;
+  createdAt: number;
+}
+
+// The file written by "Export All Notes (JSON)" and by scheduled backups
+export interface Backup {
+  format: 'website-notes-backup';
+  schemaVersion: number;
+  exportedAt: number;
+  appVersion: string; // Extension version that wrote it
+  settings: BackupSettings;
+  memos: Memo[]; // Including notes in the trash
+  attachments?: BackupAttachment[]; // Only in exported files, not in scheduled backups
 }
 
-export type MemoStore = Record<string, Memo>; // Keyed by ID for easier updates
+export interface BackupScheduleSettings {
+  enabled: boolean;
+  intervalHours: number;
+  keep: number; // Older automatic backups are deleted
+}
+
+export interface StoredBackupInfo {
+  id: string;
+  createdAt: number;
+  noteCount: number;
+  lastChangeAt: number; // Latest note change included, to skip backups when nothing changed
+  size: number; // Bytes of JSON
+}
 
 export type MemoMessage = 
   | { type: 'OPEN_MEMO'; memoId: string }
-  | { type: 'CREATE_MEMO'; url: string; title?: string };
+  | { type: 'CREATE_MEMO'; url: string; title?: string; text?: string } // `text` starts the body
+  // Text selected on the page, quoted into `memoId` or into a new note when unset
+  | { type: 'ADD_SELECTION'; memoId?: string; url: string; title?: string; selection: string; anchor?: MemoAnchor }
+  // From the content script: highlights to draw on a page, answered with `PageHighlight[]`
+  | { type: 'GET_HIGHLIGHTS'; url: string }
+  // From the content script when a highlight is clicked
+  | { type: 'OPEN_HIGHLIGHT'; memoId: string }
+  // From the panel once it can act on intents, answered with the `PanelIntent[]` queued for its tab
+  | { type: 'PANEL_READY'; tabId: number }
+  // To open panels: intents are waiting for this tab
+  | { type: 'INTENTS_PENDING'; tabId: number }
+  // Keyboard shortcuts, from chrome.commands or pressed in the panel
+  | { type: 'TOGGLE_PREVIEW' }
+  | { type: 'SELECT_NOTE'; offset: 1 | -1 } // Next or previous note in the list
+  | { type: 'FOCUS_SEARCH' }
+  | { type: 'CAPTURE_SCREENSHOT' } // Of the panel's tab, cropped and added to the open note
+  | { type: 'SYNC_NOW' };
+
+// What the background asks the side panel to do, queued until the panel claims it
+export type PanelIntent = Extract<MemoMessage, {
+  type: 'OPEN_MEMO' | 'CREATE_MEMO' | 'ADD_SELECTION' | 'TOGGLE_PREVIEW' | 'SELECT_NOTE' | 'FOCUS_SEARCH' | 'CAPTURE_SCREENSHOT';
+}>;
+
+export interface PageHighlight {
+  memoId: string;
+  anchor: MemoAnchor;
+}
+
+export interface CapturedSelection {
+  text: string; // As the user sees it, with line breaks between blocks
+  anchor: MemoAnchor | null;
+}
+
+// Sent to the content script with chrome.tabs.sendMessage
+export type PageMessage =
+  | { type: 'CAPTURE_SELECTION' }; // Answered with a `CapturedSelection`, or null when nothing is selected
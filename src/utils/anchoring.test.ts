@@ -0,0 +1,109 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import type { MemoAnchor } from '../types';
+import { describeRange, HIGHLIGHT_ATTRIBUTE, highlightAnchor, removeHighlights } from './anchoring';
+
+const anchorFor = (exact: string, id = 'anchor-1'): MemoAnchor => {
+  const text = document.body.textContent || '';
+  const start = text.indexOf(exact);
+  return {
+    id,
+    url: 'https://example.com/',
+    quote: { exact, prefix: text.slice(Math.max(0, start - 32), start), suffix: text.slice(start + exact.length, start + exact.length + 32) },
+    position: { start, end: start + exact.length },
+    createdAt: 0,
+  };
+};
+
+const marks = () => document.querySelectorAll(`mark[${HIGHLIGHT_ATTRIBUTE}]`);
+
+afterEach(() => {
+  removeHighlights();
+  document.body.innerHTML = '';
+});
+
+describe('highlightAnchor', () => {
+  it('wraps the quoted text, one mark per text node', () => {
+    document.body.innerHTML = '<p>Hello <b>bold</b> world</p>';
+
+    const drawn = highlightAnchor(anchorFor('lo bold wo'), () => {});
+
+    expect(drawn.map((mark) => mark.textContent)).toEqual(['lo ', 'bold', ' wo']);
+    expect(document.body.textContent).toBe('Hello bold world');
+  });
+
+  it('finds the quote again after the page changed around it', () => {
+    document.body.innerHTML = '<p>Hello bold world</p>';
+    const anchor = anchorFor('bold');
+    document.body.innerHTML = '<p>Intro. Hello bold world</p>';
+
+    expect(highlightAnchor(anchor, () => {}).map((mark) => mark.textContent)).toEqual(['bold']);
+  });
+
+  it('matches the range it was described from', () => {
+    document.body.innerHTML = '<p>one two one two</p>';
+    const text = document.querySelector('p')!.firstChild!;
+    const range = document.createRange();
+    range.setStart(text, 8);
+    range.setEnd(text, 11);
+
+    const anchor = describeRange(range, 'https://example.com/', 'a')!;
+    highlightAnchor(anchor, () => {});
+
+    expect(anchor.quote.exact).toBe('one');
+    expect(document.querySelector('p')!.innerHTML).toBe(`one two <mark ${HIGHLIGHT_ATTRIBUTE}="a">one</mark> two`);
+  });
+});
+
+describe('removeHighlights', () => {
+  it('restores the text nodes it split', () => {
+    document.body.innerHTML = '<p>Hello world</p>';
+    const original = document.querySelector('p')!.firstChild as Text;
+
+    highlightAnchor(anchorFor('lo wo'), () => {});
+    removeHighlights();
+
+    const p = document.querySelector('p')!;
+    expect(marks()).toHaveLength(0);
+    expect(p.childNodes).toHaveLength(1);
+    expect(p.firstChild).toBe(original);
+    expect(original.data).toBe('Hello world');
+  });
+
+  it("leaves the page's own adjacent text nodes separate", () => {
+    document.body.innerHTML = '<p></p>';
+    const p = document.querySelector('p')!;
+    const first = document.createTextNode('Hello ');
+    const second = document.createTextNode('world');
+    p.append(first, second);
+
+    highlightAnchor(anchorFor('world'), () => {});
+    removeHighlights();
+
+    expect([...p.childNodes]).toEqual([first, second]);
+    expect(first.data).toBe('Hello ');
+    expect(second.data).toBe('world');
+  });
+
+  it('unwinds overlapping highlights', () => {
+    document.body.innerHTML = '<p>alpha beta gamma</p>';
+    const original = document.querySelector('p')!.firstChild as Text;
+
+    highlightAnchor(anchorFor('alpha beta', 'a'), () => {});
+    highlightAnchor(anchorFor('beta gamma', 'b'), () => {});
+    expect(marks().length).toBeGreaterThan(2);
+    removeHighlights();
+
+    expect([...document.querySelector('p')!.childNodes]).toEqual([original]);
+    expect(original.data).toBe('alpha beta gamma');
+  });
+
+  it('removes marks it did not draw itself', () => {
+    document.body.innerHTML = `<p>Hello <mark ${HIGHLIGHT_ATTRIBUTE}="old">world</mark></p>`;
+
+    removeHighlights();
+
+    expect(marks()).toHaveLength(0);
+    expect(document.querySelector('p')!.textContent).toBe('Hello world');
+  });
+});
@@ -0,0 +1,158 @@
+import type { MemoAnchor } from '../types';
+
+// Maps between DOM ranges and anchors over the page's text content. Runs in
+// the content script, so it only depends on the DOM.
+
+const CONTEXT_LENGTH = 32;
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'TEXTAREA']);
+
+interface TextMap {
+  text: string;
+  nodes: { node: Text; start: number }[];
+}
+
+// Visible text of the body and where each text node starts in it
+const buildTextMap = (root: Node = document.body): TextMap => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) => (node.parentElement && SKIPPED_TAGS.has(node.parentElement.tagName)
+      ? NodeFilter.FILTER_REJECT
+      : NodeFilter.FILTER_ACCEPT),
+  });
+  const nodes: TextMap['nodes'] = [];
+  let text = '';
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    nodes.push({ node: node as Text, start: text.length });
+    text += node.nodeValue || '';
+  }
+  return { text, nodes };
+};
+
+// Text offset of a range boundary, which may sit in an element rather than a text node
+const boundaryOffset = (map: TextMap, container: Node, offset: number): number => {
+  if (container.nodeType === Node.TEXT_NODE) {
+    const entry = map.nodes.find((e) => e.node === container);
+    if (entry) return entry.start + offset;
+  }
+  const point = document.createRange();
+  point.setStart(container, offset);
+  const next = map.nodes.find((e) => point.comparePoint(e.node, 0) >= 0);
+  return next ? next.start : map.text.length;
+};
+
+export const describeRange = (range: Range, url: string, id: string): MemoAnchor | null => {
+  const map = buildTextMap();
+  const start = boundaryOffset(map, range.startContainer, range.startOffset);
+  const end = boundaryOffset(map, range.endContainer, range.endOffset);
+  const exact = map.text.slice(start, end);
+  if (!exact.trim()) return null;
+  return {
+    id,
+    url,
+    quote: {
+      exact,
+      prefix: map.text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+      suffix: map.text.slice(end, end + CONTEXT_LENGTH),
+    },
+    position: { start, end },
+    createdAt: Date.now(),
+  };
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const squash = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Where the anchor's text is now. The stored position wins when it still
+// holds the quote; otherwise every occurrence of the quote (ignoring
+// whitespace changes) is scored by its context and distance from the old spot.
+const locate = (text: string, anchor: MemoAnchor): { start: number; end: number } | null => {
+  const { exact, prefix, suffix } = anchor.quote;
+  const { start, end } = anchor.position;
+  if (text.slice(start, end) === exact) return { start, end };
+
+  const words = exact.trim().split(/\s+/).map(escapeRegExp);
+  if (words.length === 0 || !words[0]) return null;
+  const pattern = new RegExp(words.join('\\s+'), 'g');
+
+  let best: { start: number; end: number; score: number } | null = null;
+  let count = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (++count > 1000) break;
+    const matchStart = match.index;
+    const matchEnd = matchStart + match[0].length;
+    const before = squash(text.slice(Math.max(0, matchStart - prefix.length - 8), matchStart));
+    const after = squash(text.slice(matchEnd, matchEnd + suffix.length + 8));
+    let score = 1 - Math.abs(matchStart - start) / Math.max(text.length, 1);
+    if (squash(prefix) && before.endsWith(squash(prefix))) score += 2;
+    if (squash(suffix) && after.startsWith(squash(suffix))) score += 2;
+    if (!best || score > best.score) best = { start: matchStart, end: matchEnd, score };
+  }
+  return best && { start: best.start, end: best.end };
+};
+
+export const HIGHLIGHT_ATTRIBUTE = 'data-website-notes-highlight';
+
+// The text nodes a mark split off, so removing it joins exactly those again
+// instead of normalizing (and merging) the page's own text nodes
+interface WrappedText {
+  mark: HTMLElement;
+  head: Text; // The original node, left with the text before the mark
+  middle: Text;
+  tail: Text;
+}
+
+// Undone newest first, so marks splitting another mark's text unwind cleanly
+const wrapped: WrappedText[] = [];
+
+// Wraps the anchored text in <mark> elements, one per text node it spans.
+// Returns the marks, or an empty list when the text isn't on the page.
+export const highlightAnchor = (anchor: MemoAnchor, decorate: (mark: HTMLElement) => void): HTMLElement[] => {
+  const map = buildTextMap();
+  const found = locate(map.text, anchor);
+  if (!found) return [];
+
+  const segments = map.nodes
+    .map(({ node, start }) => ({
+      node,
+      from: Math.max(found.start, start) - start,
+      to: Math.min(found.end, start + (node.nodeValue || '').length) - start,
+    }))
+    // Whitespace between block elements, e.g. table rows, can't hold a <mark>
+    .filter(({ node, from, to }) => from < to && (node.nodeValue || '').slice(from, to).trim() !== '');
+
+  return segments.map(({ node, from, to }) => {
+    const middle = node.splitText(from);
+    const tail = middle.splitText(to - from);
+    const mark = document.createElement('mark');
+    mark.setAttribute(HIGHLIGHT_ATTRIBUTE, anchor.id);
+    decorate(mark);
+    middle.parentNode!.insertBefore(mark, middle);
+    mark.appendChild(middle);
+    wrapped.push({ mark, head: node, middle, tail });
+    return mark;
+  });
+};
+
+const unwrap = (mark: Element) => {
+  const parent = mark.parentNode;
+  if (!parent) return;
+  while (mark.firstChild) parent.insertBefore(mark.firstChild, mark);
+  parent.removeChild(mark);
+};
+
+const join = (prev: Text, next: Text) => {
+  // The page moved one of them in the meantime; leave its nodes alone
+  if (prev.nextSibling !== next) return;
+  prev.appendData(next.data);
+  next.remove();
+};
+
+export const removeHighlights = () => {
+  for (let item = wrapped.pop(); item; item = wrapped.pop()) {
+    unwrap(item.mark);
+    join(item.middle, item.tail);
+    join(item.head, item.middle);
+  }
+  // Marks drawn by an earlier copy of this script, e.g. before the extension was reloaded
+  document.querySelectorAll(`mark[${HIGHLIGHT_ATTRIBUTE}]`).forEach(unwrap);
+};
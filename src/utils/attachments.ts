@@ -0,0 +1,195 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Attachment, BackupAttachment } from '../types';
+import { getAllMemos, getTrashedMemos } from './storage';
+import { getRevisions } from './history';
+import { ATTACHMENT_STORE as STORE, complete, openDatabase, settle } from './database';
+
+// Images live in IndexedDB (see utils/database). Notes link to them as
+// `attachment:<id>`; they aren't synced.
+
+export const ATTACHMENT_SCHEME = 'attachment:';
+export const ATTACHMENT_CLEANUP_ALARM = 'attachment-cleanup';
+
+// Unlinked attachments are kept this long, so undoing an edit or restoring
+// an older revision or backup still finds them
+const ORPHAN_GRACE_DAYS = 30;
+
+const UUID = '[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}';
+const ATTACHMENT_REF_REGEX = new RegExp(`(?<![\\w-])${ATTACHMENT_SCHEME}(${UUID})`, 'gi');
+
+export const attachmentUrl = (id: string) => `${ATTACHMENT_SCHEME}${id}`;
+
+// IDs of the attachments a note links to
+export const getAttachmentIds = (content: string): string[] => {
+  return [...new Set([...content.matchAll(ATTACHMENT_REF_REGEX)].map((match) => match[1].toLowerCase()))];
+};
+
+// Rewrites every attachment link; `replace` returns null to keep one as it is
+export const replaceAttachmentRefs = (content: string, replace: (id: string) => string | null): string => {
+  return content.replace(ATTACHMENT_REF_REGEX, (match, id: string) => replace(id.toLowerCase()) ?? match);
+};
+
+export const getAttachments = async (ids: string[]): Promise<Attachment[]> => {
+  if (ids.length === 0) return [];
+  const store = (await openDatabase()).transaction(STORE, 'readonly').objectStore(STORE);
+  const found = await Promise.all(ids.map((id) => settle<Attachment | undefined>(store.get(id))));
+  return found.filter((attachment): attachment is Attachment => !!attachment);
+};
+
+export const getAllAttachments = async (): Promise<Attachment[]> => {
+  const store = (await openDatabase()).transaction(STORE, 'readonly').objectStore(STORE);
+  return settle<Attachment[]>(store.getAll());
+};
+
+// Writes them in one transaction: all of them are stored or none
+export const putAttachments = async (attachments: Attachment[]): Promise<void> => {
+  if (attachments.length === 0) return;
+  const transaction = (await openDatabase()).transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  attachments.forEach((attachment) => store.put(attachment));
+  await complete(transaction);
+};
+
+export const deleteAttachments = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const transaction = (await openDatabase()).transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  ids.forEach((id) => store.delete(id));
+  await complete(transaction);
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+};
+
+// Markdown exports keep the files in this folder, next to the domain folders
+export const ATTACHMENT_FOLDER = 'attachments';
+
+// `<id>.<extension>`, the name used in Markdown exports
+export const attachmentFileName = (id: string, type: string) => {
+  const extension = Object.keys(IMAGE_TYPES).find((key) => IMAGE_TYPES[key] === type) || 'bin';
+  return `${id}.${extension}`;
+};
+
+const EXPORTED_FILE_REGEX = new RegExp(`(?:^|/)${ATTACHMENT_FOLDER}/(${UUID})\\.(\\w+)$`, 'i');
+
+export const isAttachmentPath = (path: string) => {
+  const match = path.match(EXPORTED_FILE_REGEX);
+  return !!match && !!IMAGE_TYPES[match[2].toLowerCase()];
+};
+
+// The attachment in a file from a Markdown export, or null for any other file
+export const attachmentFromFile = (path: string, data: BlobPart, createdAt: number): Attachment | null => {
+  const match = path.match(EXPORTED_FILE_REGEX);
+  const type = match && IMAGE_TYPES[match[2].toLowerCase()];
+  if (!match || !type) return null;
+  return { id: match[1].toLowerCase(), name: path.split('/').pop()!, blob: new Blob([data], { type }), createdAt };
+};
+
+const EXPORTED_LINK_REGEX = new RegExp(`(?:\\.\\./)*${ATTACHMENT_FOLDER}/(${UUID})\\.\\w+`, 'gi');
+
+// Points links to the files of a Markdown export at the attachments again
+export const restoreAttachmentLinks = (content: string): string => {
+  return content.replace(EXPORTED_LINK_REGEX, (_match, id: string) => attachmentUrl(id.toLowerCase()));
+};
+
+export const getImageFiles = (data: DataTransfer | null): File[] => {
+  return Array.from(data?.files || []).filter((file) => file.type.startsWith('image/'));
+};
+
+// Stores the images and returns the Markdown that shows them
+export const saveImages = async (files: File[]): Promise<string> => {
+  const attachments = files.map((file): Attachment => ({
+    id: uuidv4(),
+    name: file.name || 'image',
+    blob: file,
+    createdAt: Date.now(),
+  }));
+  await putAttachments(attachments);
+  return attachments
+    .map((attachment) => `![${attachment.name.replace(/\.[^.]+$/, '').replace(/[[\]]/g, '')}](${attachmentUrl(attachment.id)})`)
+    .join('\n');
+};
+
+// Deletes attachments no note has linked to for ORPHAN_GRACE_DAYS. Notes in
+// the trash and their history count as links, since they can be restored.
+export const collectOrphanedAttachments = async (now: number = Date.now()): Promise<number> => {
+  const memos = [...(await getAllMemos()), ...(await getTrashedMemos())];
+  const linked = new Set<string>();
+  for (const memo of memos) {
+    getAttachmentIds(memo.content).forEach((id) => linked.add(id));
+    (await getRevisions(memo.id)).forEach((revision) => {
+      getAttachmentIds(revision.content).forEach((id) => linked.add(id));
+    });
+  }
+
+  const expired: string[] = [];
+  const changed: Attachment[] = [];
+  (await getAllAttachments()).forEach((attachment) => {
+    if (linked.has(attachment.id)) {
+      if (attachment.orphanedAt !== undefined) changed.push({ ...attachment, orphanedAt: undefined });
+    } else if (attachment.orphanedAt === undefined) {
+      changed.push({ ...attachment, orphanedAt: now });
+    } else if (now - attachment.orphanedAt > ORPHAN_GRACE_DAYS * 24 * 60 * 60 * 1000) {
+      expired.push(attachment.id);
+    }
+  });
+  await putAttachments(changed);
+  await deleteAttachments(expired);
+  return expired.length;
+};
+
+export const scheduleAttachmentCleanup = async (): Promise<void> => {
+  const alarm = await chrome.alarms.get(ATTACHMENT_CLEANUP_ALARM);
+  if (!alarm) await chrome.alarms.create(ATTACHMENT_CLEANUP_ALARM, { delayInMinutes: 1, periodInMinutes: 24 * 60 });
+};
+
+// --- Backups ---------------------------------------------------------------
+
+const toBase64 = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // In chunks, since spreading a large array overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (data: string, type: string) => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+};
+
+export const toBackupAttachment = async (attachment: Attachment): Promise<BackupAttachment> => ({
+  id: attachment.id,
+  name: attachment.name,
+  type: attachment.blob.type,
+  data: await toBase64(attachment.blob),
+  createdAt: attachment.createdAt,
+});
+
+// Expects an entry checked by `parseBackup`
+export const fromBackupAttachment = (attachment: BackupAttachment): Attachment => ({
+  id: attachment.id.toLowerCase(),
+  name: attachment.name,
+  blob: fromBase64(attachment.data, attachment.type),
+  createdAt: attachment.createdAt,
+});
+
+// Attachments are never edited, so one with the same ID is the same file
+export const importAttachments = async (attachments: Attachment[]): Promise<number> => {
+  const existing = new Set((await getAttachments(attachments.map((a) => a.id))).map((a) => a.id));
+  const missing = attachments.filter((a) => !existing.has(a.id));
+  await putAttachments(missing);
+  return missing.length;
+};
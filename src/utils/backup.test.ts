@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import type { Backup, Memo, StoredBackupInfo } from '../types';
+import { fakeChrome } from '../test/fakeChrome';
+
+// Re-imported for every test, against an empty database: the modules keep
+// the open connection and whether they have migrated
+let storage: typeof import('./storage');
+let backup: typeof import('./backup');
+
+const makeMemo = (overrides: Partial<Memo> = {}): Memo => ({
+  id: 'memo-1',
+  title: 'A note',
+  content: 'Hello',
+  domain: 'example.com',
+  url: 'https://example.com/',
+  isUrlSpecific: false,
+  tags: [],
+  createdAt: 1000,
+  updatedAt: 1000,
+  ...overrides,
+});
+
+const local = () => fakeChrome().storage.local;
+
+beforeEach(async () => {
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  vi.resetModules();
+  storage = await import('./storage');
+  backup = await import('./backup');
+});
+
+describe('scheduled backups', () => {
+  it('keeps backups out of chrome.storage.local', async () => {
+    await storage.saveMemo(makeMemo());
+
+    const info = await backup.storeBackup();
+
+    expect(info).toMatchObject({ noteCount: 1, lastChangeAt: 1000 });
+    expect([...local().items.keys()].filter((key) => key.startsWith('backup'))).toEqual([]);
+    expect(await backup.listBackups()).toEqual([info]);
+    const stored = (await backup.getStoredBackup(info!.id)) as Backup;
+    expect(stored.memos.map((memo) => memo.id)).toEqual(['memo-1']);
+    expect(backup.parseBackup(stored).memos).toHaveLength(1);
+  });
+
+  it('skips a scheduled backup when no note changed', async () => {
+    await storage.saveMemo(makeMemo());
+    await backup.storeBackup();
+
+    expect(await backup.storeBackup()).toBeNull();
+    expect(await backup.storeBackup({ force: true })).not.toBeNull();
+
+    await storage.saveMemo(makeMemo({ updatedAt: 2000 }));
+    expect(await backup.storeBackup()).not.toBeNull();
+    expect(await backup.listBackups()).toHaveLength(3);
+  });
+
+  it('drops the oldest backups beyond the number to keep', async () => {
+    await backup.saveBackupSchedule({ ...backup.DEFAULT_BACKUP_SCHEDULE, keep: 2 });
+    const now = vi.spyOn(Date, 'now');
+    const infos: StoredBackupInfo[] = [];
+    for (let i = 0; i < 3; i++) {
+      now.mockReturnValue(10000 + i);
+      infos.push((await backup.storeBackup({ force: true }))!);
+    }
+    now.mockRestore();
+
+    expect(await backup.listBackups()).toEqual([infos[2], infos[1]]);
+    expect(await backup.getStoredBackup(infos[0].id)).toBeNull();
+  });
+
+  it('deletes a backup with its data', async () => {
+    const info = (await backup.storeBackup({ force: true }))!;
+
+    await backup.deleteStoredBackup(info.id);
+
+    expect(await backup.listBackups()).toEqual([]);
+    expect(await backup.getStoredBackup(info.id)).toBeNull();
+  });
+
+  it('moves backups kept in chrome.storage.local by older versions', async () => {
+    const older: StoredBackupInfo = { id: 'old', createdAt: 1, noteCount: 0, lastChangeAt: 0, size: 2 };
+    const newer: StoredBackupInfo = { id: 'new', createdAt: 2, noteCount: 0, lastChangeAt: 0, size: 2 };
+    await local().set({
+      backupIndex: [newer, older, { ...older, id: 'lost' }],
+      'backup:new': { memos: ['new'] },
+      'backup:old': { memos: ['old'] },
+    });
+
+    expect(await backup.listBackups()).toEqual([newer, older]);
+    expect(await backup.getStoredBackup('old')).toEqual({ memos: ['old'] });
+    expect([...local().items.keys()].filter((key) => key.startsWith('backup'))).toEqual([]);
+  });
+});
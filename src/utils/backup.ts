@@ -0,0 +1,368 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Backup, BackupAttachment, BackupScheduleSettings, BackupSettings, Memo, StoredBackupInfo } from '../types';
+import { getAllMemos, getMemoIndex, getTrashedMemos, getTrashRetentionDays, TRASH_RETENTION_KEY } from './storage';
+import { getUrlSettings, sanitizeUrlSettings, saveUrlSettings } from './url';
+import { getDomainSettings, sanitizeDomainSettings, saveDomainSettings } from './domain';
+import { getTemplateSettings, sanitizeTemplateSettings, saveTemplateSettings } from './templates';
+import { storageArea, withStorageLock } from './storageArea';
+import { BACKUP_DATA_STORE, BACKUP_INFO_STORE, complete, openDatabase, settle } from './database';
+import { getAllAttachments, getAttachmentIds, toBackupAttachment } from './attachments';
+
+const BACKUP_FORMAT = 'website-notes-backup';
+// Bump when the layout of `Backup` or `Memo` changes in a way old readers can't handle
+export const BACKUP_SCHEMA_VERSION = 1;
+
+const FONT_KEYS = ['fontFamilySans', 'fontFamilyMono', 'fontSize'] as const;
+
+const appVersion = () => (typeof chrome !== 'undefined' && chrome.runtime?.getManifest ? chrome.runtime.getManifest().version : 'dev');
+
+const readBackupSettings = async (): Promise<BackupSettings> => {
+  const fonts = await storageArea.get([...FONT_KEYS]);
+  return {
+    fontFamilySans: typeof fonts.fontFamilySans === 'string' ? fonts.fontFamilySans : undefined,
+    fontFamilyMono: typeof fonts.fontFamilyMono === 'string' ? fonts.fontFamilyMono : undefined,
+    fontSize: typeof fonts.fontSize === 'number' ? fonts.fontSize : undefined,
+    url: await getUrlSettings(),
+    domain: await getDomainSettings(),
+    trashRetentionDays: await getTrashRetentionDays(),
+    templates: await getTemplateSettings(),
+  };
+};
+
+// Attachments make the file much larger, so scheduled backups, which stay
+// on this device next to the attachments anyway, leave them out
+export const createBackup = async ({ includeAttachments = false } = {}): Promise<Backup> => {
+  const memos = [...(await getAllMemos()), ...(await getTrashedMemos())];
+  const backup: Backup = {
+    format: BACKUP_FORMAT,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    appVersion: appVersion(),
+    settings: await readBackupSettings(),
+    memos,
+  };
+  if (includeAttachments) {
+    const linked = new Set(memos.flatMap((memo) => getAttachmentIds(memo.content)));
+    const attachments = (await getAllAttachments()).filter((attachment) => linked.has(attachment.id));
+    backup.attachments = await Promise.all(attachments.map(toBackupAttachment));
+  }
+  return backup;
+};
+
+export const backupFileName = (date: Date = new Date()) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `website-notes-backup-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.json`;
+};
+
+// --- Validation ------------------------------------------------------------
+
+export interface ParsedBackup {
+  schemaVersion: number; // 0 for the bare note arrays written before backups had a version
+  exportedAt?: number;
+  appVersion?: string;
+  settings?: BackupSettings;
+  memos: unknown[]; // Checked one by one with `checkMemo`, so one bad note doesn't reject the file
+  attachments: BackupAttachment[];
+  warnings: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isTimestamp = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const describeType = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  if (typeof value === 'string') return value === '' ? 'an empty string' : 'a string';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return typeof value === 'object' ? 'an object' : typeof value;
+};
+
+const checkSettings = (value: unknown, warnings: string[]): BackupSettings | undefined => {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    warnings.push(`"settings" is ${describeType(value)} instead of an object and was ignored`);
+    return undefined;
+  }
+  const settings: BackupSettings = {};
+  const ignore = (key: string, expected: string) => {
+    if (value[key] !== undefined) warnings.push(`"settings.${key}" is not ${expected} and was ignored`);
+  };
+
+  if (typeof value.fontFamilySans === 'string') settings.fontFamilySans = value.fontFamilySans;
+  else ignore('fontFamilySans', 'a string');
+  if (typeof value.fontFamilyMono === 'string') settings.fontFamilyMono = value.fontFamilyMono;
+  else ignore('fontFamilyMono', 'a string');
+  if (typeof value.fontSize === 'number' && value.fontSize > 0) settings.fontSize = value.fontSize;
+  else ignore('fontSize', 'a positive number');
+  if (isObject(value.url)) settings.url = sanitizeUrlSettings(value.url);
+  else ignore('url', 'an object');
+  if (isObject(value.domain)) settings.domain = sanitizeDomainSettings(value.domain);
+  else ignore('domain', 'an object');
+  if (typeof value.trashRetentionDays === 'number' && value.trashRetentionDays >= 1) {
+    settings.trashRetentionDays = Math.round(value.trashRetentionDays);
+  } else {
+    ignore('trashRetentionDays', 'a number of days');
+  }
+  if (isObject(value.templates)) settings.templates = sanitizeTemplateSettings(value.templates);
+  else ignore('templates', 'an object');
+  return settings;
+};
+
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+const isAttachment = (value: unknown): value is BackupAttachment => {
+  return isObject(value) && typeof value.id === 'string' && /^[\w-]+$/.test(value.id)
+    && typeof value.name === 'string' && typeof value.type === 'string'
+    && typeof value.data === 'string' && value.data.length % 4 === 0 && BASE64.test(value.data)
+    && isTimestamp(value.createdAt);
+};
+
+// Broken attachments are left out; the notes linking to them still import
+const checkAttachments = (value: unknown, warnings: string[]): BackupAttachment[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    warnings.push(`"attachments" is ${describeType(value)} instead of a list and was ignored`);
+    return [];
+  }
+  const valid = value.filter(isAttachment);
+  if (valid.length < value.length) {
+    const skipped = value.length - valid.length;
+    warnings.push(`${skipped} ${skipped === 1 ? 'attachment is' : 'attachments are'} invalid and will not be imported`);
+  }
+  return valid;
+};
+
+// Checks the envelope and throws with a message the user can act on. Bare
+// arrays from older exports are accepted as schema version 0.
+export const parseBackup = (json: unknown): ParsedBackup => {
+  if (Array.isArray(json)) return { schemaVersion: 0, memos: json, attachments: [], warnings: [] };
+  if (!isObject(json)) {
+    throw new Error(`Expected a backup object or a list of notes, found ${describeType(json)}`);
+  }
+  if (json.format !== BACKUP_FORMAT) {
+    throw new Error(`Not a Website Notes backup ("format" is ${JSON.stringify(json.format)}, expected "${BACKUP_FORMAT}")`);
+  }
+  const { schemaVersion } = json;
+  if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion < 1) {
+    throw new Error(`"schemaVersion" must be a positive whole number, found ${JSON.stringify(schemaVersion)}`);
+  }
+  if (schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error(`This backup uses schema version ${schemaVersion}, but this version of the extension only reads up to ${BACKUP_SCHEMA_VERSION}. Update the extension and try again.`);
+  }
+  if (!Array.isArray(json.memos)) {
+    throw new Error(`"memos" must be a list of notes, found ${describeType(json.memos)}`);
+  }
+
+  const warnings: string[] = [];
+  if (json.exportedAt !== undefined && !isTimestamp(json.exportedAt)) {
+    warnings.push('"exportedAt" is not a valid timestamp');
+  }
+  const attachments = checkAttachments(json.attachments, warnings);
+  return {
+    schemaVersion,
+    exportedAt: isTimestamp(json.exportedAt) ? (json.exportedAt as number) : undefined,
+    appVersion: typeof json.appVersion === 'string' ? json.appVersion : undefined,
+    settings: checkSettings(json.settings, warnings),
+    memos: json.memos,
+    attachments,
+    warnings,
+  };
+};
+
+const isAnchor = (value: unknown) => {
+  if (!isObject(value) || !isObject(value.quote) || !isObject(value.position)) return false;
+  return typeof value.id === 'string' && typeof value.url === 'string'
+    && typeof value.quote.exact === 'string' && typeof value.quote.prefix === 'string' && typeof value.quote.suffix === 'string'
+    && typeof value.position.start === 'number' && typeof value.position.end === 'number';
+};
+
+// Lists everything wrong with one note entry; empty when it can be imported
+export const checkMemo = (value: unknown): string[] => {
+  if (!isObject(value)) return [`expected a note object, found ${describeType(value)}`];
+  const problems: string[] = [];
+  const expect = (key: string, valid: boolean, expected: string, required = false) => {
+    if (value[key] === undefined) {
+      if (required) problems.push(`"${key}" is missing`);
+    } else if (!valid) {
+      problems.push(`"${key}" must be ${expected}, found ${describeType(value[key])}`);
+    }
+  };
+
+  expect('id', typeof value.id === 'string' && value.id !== '', 'a non-empty string', true);
+  expect('content', typeof value.content === 'string', 'a string', true);
+  expect('domain', typeof value.domain === 'string', 'a string', true);
+  expect('title', typeof value.title === 'string', 'a string');
+  expect('url', typeof value.url === 'string', 'a string');
+  expect('isUrlSpecific', typeof value.isUrlSpecific === 'boolean', 'true or false');
+  expect('tags', Array.isArray(value.tags) && value.tags.every((tag) => typeof tag === 'string'), 'a list of strings');
+  expect('createdAt', isTimestamp(value.createdAt), 'a timestamp');
+  expect('updatedAt', isTimestamp(value.updatedAt), 'a timestamp');
+  expect('deletedAt', isTimestamp(value.deletedAt), 'a timestamp');
+  expect('anchors', Array.isArray(value.anchors) && value.anchors.every(isAnchor), 'a list of page highlights');
+  return problems;
+};
+
+export const restoreBackupSettings = async (settings: BackupSettings): Promise<void> => {
+  const fonts: Record<string, unknown> = {};
+  FONT_KEYS.forEach((key) => {
+    if (settings[key] !== undefined) fonts[key] = settings[key];
+  });
+  if (settings.trashRetentionDays !== undefined) fonts[TRASH_RETENTION_KEY] = settings.trashRetentionDays;
+  await storageArea.set(fonts);
+  if (settings.url) await saveUrlSettings(settings.url);
+  if (settings.domain) await saveDomainSettings(settings.domain);
+  if (settings.templates) await saveTemplateSettings(settings.templates);
+};
+
+// --- Scheduled backups -----------------------------------------------------
+//
+// Kept in IndexedDB (see utils/database): a few copies of every note would
+// soon fill chrome.storage.local, which the notes themselves live in.
+
+export const BACKUP_SCHEDULE_KEY = 'backupSchedule';
+export const BACKUP_ALARM = 'backup';
+// Where older versions kept them: `backupIndex` listed them newest first
+// and `backup:<id>` held each one
+const LEGACY_INDEX_KEY = 'backupIndex';
+const LEGACY_KEY_PREFIX = 'backup:';
+
+export const DEFAULT_BACKUP_SCHEDULE: BackupScheduleSettings = {
+  enabled: true,
+  intervalHours: 24,
+  keep: 7,
+};
+
+const legacyKey = (id: string) => `${LEGACY_KEY_PREFIX}${id}`;
+
+const sanitizeBackupSchedule = (value: unknown): BackupScheduleSettings => {
+  if (!isObject(value)) return DEFAULT_BACKUP_SCHEDULE;
+  const raw = value as Partial<BackupScheduleSettings>;
+  const positive = (n: unknown, fallback: number) => (typeof n === 'number' && n >= 1 ? Math.round(n) : fallback);
+  return {
+    enabled: typeof raw.enabled === 'boolean' ? raw.enabled : DEFAULT_BACKUP_SCHEDULE.enabled,
+    intervalHours: positive(raw.intervalHours, DEFAULT_BACKUP_SCHEDULE.intervalHours),
+    keep: positive(raw.keep, DEFAULT_BACKUP_SCHEDULE.keep),
+  };
+};
+
+export const getBackupSchedule = async (): Promise<BackupScheduleSettings> => {
+  const result = await storageArea.get([BACKUP_SCHEDULE_KEY]);
+  return sanitizeBackupSchedule(result[BACKUP_SCHEDULE_KEY]);
+};
+
+// The background worker reschedules the alarm whenever this changes
+export const saveBackupSchedule = async (settings: BackupScheduleSettings): Promise<void> => {
+  await storageArea.set({ [BACKUP_SCHEDULE_KEY]: sanitizeBackupSchedule(settings) });
+};
+
+interface BackupRecord {
+  id: string;
+  backup: unknown;
+}
+
+// One transaction over both stores, so every listed backup has its data
+const writeBackups = async (added: { info: StoredBackupInfo; backup: unknown }[], removedIds: string[]) => {
+  const transaction = (await openDatabase()).transaction([BACKUP_INFO_STORE, BACKUP_DATA_STORE], 'readwrite');
+  const infos = transaction.objectStore(BACKUP_INFO_STORE);
+  const data = transaction.objectStore(BACKUP_DATA_STORE);
+  added.forEach(({ info, backup }) => {
+    infos.put(info);
+    data.put({ id: info.id, backup } satisfies BackupRecord);
+  });
+  removedIds.forEach((id) => {
+    infos.delete(id);
+    data.delete(id);
+  });
+  await complete(transaction);
+};
+
+const migrateLegacyBackups = () => withStorageLock(async () => {
+  const result = await storageArea.get([LEGACY_INDEX_KEY]);
+  const index = result[LEGACY_INDEX_KEY] as StoredBackupInfo[] | undefined;
+  if (!index) return;
+
+  const keys = index.map((info) => legacyKey(info.id));
+  const stored = keys.length > 0 ? await storageArea.get(keys) : {};
+  const moved = index
+    .filter((info) => stored[legacyKey(info.id)] !== undefined)
+    .map((info) => ({ info, backup: stored[legacyKey(info.id)] }));
+  await writeBackups(moved, []);
+  await storageArea.remove([LEGACY_INDEX_KEY, ...keys]);
+});
+
+let migration: Promise<void> | null = null;
+
+const ensureMigrated = () => {
+  if (!migration) {
+    migration = migrateLegacyBackups().catch((err) => {
+      migration = null;
+      throw err;
+    });
+  }
+  return migration;
+};
+
+// Newest first
+export const listBackups = async (): Promise<StoredBackupInfo[]> => {
+  await ensureMigrated();
+  const store = (await openDatabase()).transaction(BACKUP_INFO_STORE, 'readonly').objectStore(BACKUP_INFO_STORE);
+  const infos = await settle<StoredBackupInfo[]>(store.getAll());
+  return infos.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getStoredBackup = async (id: string): Promise<unknown> => {
+  await ensureMigrated();
+  const store = (await openDatabase()).transaction(BACKUP_DATA_STORE, 'readonly').objectStore(BACKUP_DATA_STORE);
+  const record = await settle<BackupRecord | undefined>(store.get(id));
+  return record?.backup ?? null;
+};
+
+export const deleteStoredBackup = async (id: string): Promise<void> => {
+  await ensureMigrated();
+  await writeBackups([], [id]);
+};
+
+const lastChange = (memos: Pick<Memo, 'updatedAt' | 'deletedAt'>[]) => {
+  return memos.reduce((latest, memo) => Math.max(latest, memo.updatedAt, memo.deletedAt || 0), 0);
+};
+
+// Stores a backup and drops the oldest ones beyond `keep`. Scheduled runs
+// skip it when no note changed since the last backup; settings changes
+// alone don't count.
+export const storeBackup = async ({ force = false } = {}): Promise<StoredBackupInfo | null> => {
+  const schedule = await getBackupSchedule();
+  const index = await listBackups();
+  if (!force && index[0]) {
+    const entries = await getMemoIndex(true);
+    if (entries.length === index[0].noteCount && lastChange(entries) === index[0].lastChangeAt) return null;
+  }
+
+  const backup = await createBackup();
+  const info: StoredBackupInfo = {
+    id: uuidv4(),
+    createdAt: backup.exportedAt,
+    noteCount: backup.memos.length,
+    lastChangeAt: lastChange(backup.memos),
+    size: new TextEncoder().encode(JSON.stringify(backup)).length,
+  };
+  const kept = [info, ...index].slice(0, schedule.keep);
+  const dropped = index.filter((old) => !kept.includes(old));
+
+  await writeBackups([{ info, backup }], dropped.map((old) => old.id));
+  return info;
+};
+
+// Keeps the alarm in line with the schedule. An unchanged alarm is left
+// alone, since creating it again would push the next run back.
+export const scheduleBackups = async (): Promise<void> => {
+  const schedule = await getBackupSchedule();
+  if (!schedule.enabled) {
+    await chrome.alarms.clear(BACKUP_ALARM);
+    return;
+  }
+  const periodInMinutes = schedule.intervalHours * 60;
+  const alarm = await chrome.alarms.get(BACKUP_ALARM);
+  if (alarm?.periodInMinutes === periodInMinutes) return;
+  await chrome.alarms.create(BACKUP_ALARM, { delayInMinutes: 1, periodInMinutes });
+};
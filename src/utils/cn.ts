@@ -0,0 +1,5 @@
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+// Helper for classes
+export const cn = (...inputs: (string | undefined | null | false)[]) => twMerge(clsx(inputs));
@@ -0,0 +1,46 @@
+// IndexedDB for what is too large for chrome.storage.local, shared by the
+// panel, the options page and the service worker. Every store is keyed by `id`.
+const DB_NAME = 'website-notes';
+const DB_VERSION = 2;
+
+export const ATTACHMENT_STORE = 'attachments';
+// Metadata of the scheduled backups, so listing them doesn't load them
+export const BACKUP_INFO_STORE = 'backups';
+// The backups themselves, as `{ id, backup }`
+export const BACKUP_DATA_STORE = 'backupData';
+
+const STORES = [ATTACHMENT_STORE, BACKUP_INFO_STORE, BACKUP_DATA_STORE];
+
+let database: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        // Stores added by later versions are created when an older database is opened
+        STORES.forEach((name) => {
+          if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name, { keyPath: 'id' });
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call try again
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+export const settle = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const complete = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
@@ -0,0 +1,34 @@
+import { v4 as uuidv4 } from 'uuid';
+import { storageArea } from './storageArea';
+
+const DEVICE_ID_KEY = 'deviceId';
+const DEVICE_NAME_KEY = 'deviceName';
+
+let deviceIdPromise: Promise<string> | null = null;
+
+// Random ID created once per browser profile; it tells the devices apart when syncing
+export const getDeviceId = (): Promise<string> => {
+  if (!deviceIdPromise) {
+    deviceIdPromise = (async () => {
+      const result = await storageArea.get([DEVICE_ID_KEY]);
+      const existing = result[DEVICE_ID_KEY];
+      if (typeof existing === 'string') return existing;
+      const id = uuidv4();
+      await storageArea.set({ [DEVICE_ID_KEY]: id });
+      return id;
+    })();
+  }
+  return deviceIdPromise;
+};
+
+// Human readable label used in the titles of conflicting copies
+export const getDeviceName = async (): Promise<string> => {
+  const result = await storageArea.get([DEVICE_NAME_KEY]);
+  const name = result[DEVICE_NAME_KEY];
+  if (typeof name === 'string' && name.trim() !== '') return name.trim();
+  return `Device ${(await getDeviceId()).slice(0, 4)}`;
+};
+
+export const saveDeviceName = async (name: string): Promise<void> => {
+  await storageArea.set({ [DEVICE_NAME_KEY]: name.trim() });
+};
@@ -0,0 +1,96 @@
+export interface DiffLine {
+  type: 'equal' | 'add' | 'remove';
+  text: string;
+}
+
+// Above this many cells the LCS table gets too big; the middle is then shown
+// as a plain remove/add block instead of a line-by-line diff.
+const MAX_TABLE_CELLS = 4_000_000;
+
+// Line diff of `before` -> `after` based on the longest common subsequence.
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Common prefix and suffix don't need the table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const prefix: DiffLine[] = a.slice(0, start).map(text => ({ type: 'equal', text }));
+  const suffix: DiffLine[] = a.slice(endA).map(text => ({ type: 'equal', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_TABLE_CELLS) {
+    return [
+      ...prefix,
+      ...midA.map(text => ({ type: 'remove' as const, text })),
+      ...midB.map(text => ({ type: 'add' as const, text })),
+      ...suffix,
+    ];
+  }
+
+  // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+  const lengths: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i][j] = midA[i] === midB[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'equal', text: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      middle.push({ type: 'remove', text: midA[i] });
+      i++;
+    } else {
+      middle.push({ type: 'add', text: midB[j] });
+      j++;
+    }
+  }
+  while (i < midA.length) middle.push({ type: 'remove', text: midA[i++] });
+  while (j < midB.length) middle.push({ type: 'add', text: midB[j++] });
+
+  return [...prefix, ...middle, ...suffix];
+};
+
+export interface SideBySideRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Lines up a diff in two columns: removed lines on the left face the lines
+// that were added in their place on the right.
+export const toSideBySide = (lines: DiffLine[]): SideBySideRow[] => {
+  const rows: SideBySideRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === 'equal') {
+      rows.push({ left: lines[i], right: lines[i] });
+      i++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < lines.length && lines[i].type !== 'equal') {
+      (lines[i].type === 'remove' ? removed : added).push(lines[i]);
+      i++;
+    }
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+  }
+  return rows;
+};
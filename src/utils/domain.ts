@@ -0,0 +1,93 @@
+import type { DomainGroupingSettings } from '../types';
+import { PUBLIC_SUFFIXES } from './publicSuffixes';
+
+export const DOMAIN_SETTINGS_KEY = 'domainGrouping';
+
+export const DEFAULT_DOMAIN_SETTINGS: DomainGroupingSettings = {
+  mode: 'exact',
+  aliasGroups: [],
+};
+
+const SUFFIX_RULES = new Set(PUBLIC_SUFFIXES.filter(rule => !rule.startsWith('!')));
+const SUFFIX_EXCEPTIONS = new Set(PUBLIC_SUFFIXES.filter(rule => rule.startsWith('!')).map(rule => rule.slice(1)));
+
+const isIpAddress = (host: string) => /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(':') || host.startsWith('[');
+
+// Number of labels that make up the public suffix of `labels`
+const publicSuffixLength = (labels: string[]): number => {
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (SUFFIX_EXCEPTIONS.has(candidate)) {
+      return labels.length - i - 1;
+    }
+    if (SUFFIX_RULES.has(candidate)) {
+      return labels.length - i;
+    }
+    const wildcard = ['*', ...labels.slice(i + 1)].join('.');
+    if (i + 1 < labels.length && SUFFIX_RULES.has(wildcard)) {
+      return labels.length - i;
+    }
+  }
+  // Default rule `*`: the TLD itself
+  return 1;
+};
+
+// eTLD+1, e.g. `docs.example.co.uk` -> `example.co.uk`
+export const getRegistrableDomain = (hostname: string): string => {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (!host.includes('.') || isIpAddress(host)) return host;
+
+  const labels = host.split('.');
+  const suffixLength = publicSuffixLength(labels);
+  if (suffixLength >= labels.length) return host;
+  return labels.slice(labels.length - suffixLength - 1).join('.');
+};
+
+const findAliasGroup = (host: string, groups: string[][]): string[] | undefined => {
+  return groups.find(group => group.some(alias => alias.trim().toLowerCase() === host));
+};
+
+// Key that decides which notes bucket a host belongs to
+export const resolveDomain = (hostname: string, settings: DomainGroupingSettings = DEFAULT_DOMAIN_SETTINGS): string => {
+  const host = hostname.toLowerCase();
+  switch (settings.mode) {
+    case 'registrable':
+      return getRegistrableDomain(host);
+    case 'alias': {
+      const group = findAliasGroup(host, settings.aliasGroups);
+      // The first host of a group names it
+      return group ? group[0].trim().toLowerCase() : host;
+    }
+    default:
+      return host;
+  }
+};
+
+export const isSameDomain = (a: string, b: string, settings: DomainGroupingSettings = DEFAULT_DOMAIN_SETTINGS): boolean => {
+  return resolveDomain(a, settings) === resolveDomain(b, settings);
+};
+
+export const sanitizeDomainSettings = (value: unknown): DomainGroupingSettings => {
+  if (!value || typeof value !== 'object') return DEFAULT_DOMAIN_SETTINGS;
+  const raw = value as Partial<DomainGroupingSettings>;
+  const mode = raw.mode === 'exact' || raw.mode === 'registrable' || raw.mode === 'alias' ? raw.mode : DEFAULT_DOMAIN_SETTINGS.mode;
+  const aliasGroups = Array.isArray(raw.aliasGroups)
+    ? raw.aliasGroups
+        .filter(group => Array.isArray(group))
+        .map(group => group.filter(host => typeof host === 'string' && host.trim() !== ''))
+        .filter(group => group.length > 0)
+    : DEFAULT_DOMAIN_SETTINGS.aliasGroups;
+  return { mode, aliasGroups };
+};
+
+export const getDomainSettings = async (): Promise<DomainGroupingSettings> => {
+  if (typeof chrome === 'undefined' || !chrome.storage?.local) {
+    return DEFAULT_DOMAIN_SETTINGS;
+  }
+  const result = await chrome.storage.local.get(DOMAIN_SETTINGS_KEY);
+  return sanitizeDomainSettings(result[DOMAIN_SETTINGS_KEY]);
+};
+
+export const saveDomainSettings = async (settings: DomainGroupingSettings): Promise<void> => {
+  await chrome.storage.local.set({ [DOMAIN_SETTINGS_KEY]: settings });
+};
@@ -0,0 +1,277 @@
+export type FrontMatterValue = string | string[];
+
+export type FrontMatterData = Record<string, FrontMatterValue>;
+
+interface FrontMatterEntry {
+  key: string;
+  value: FrontMatterValue;
+  // Line range inside the front matter block, end exclusive
+  startLine: number;
+  endLine: number;
+}
+
+export interface ParsedFrontMatter {
+  data: FrontMatterData;
+  entries: FrontMatterEntry[];
+  body: string;
+  // Offset of the body inside the original content
+  bodyOffset: number;
+  hasFrontMatter: boolean;
+}
+
+const FRONT_MATTER_REGEX = /^---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+// A key needs whitespace or the end of the line after its colon, so `https://...` is never a key
+const KEY_REGEX = /^([^\s:#-][^:]*?)[ \t]*:(?:[ \t]+(.*))?$/;
+const LIST_ITEM_REGEX = /^\s*-(?:\s+(.*))?$/;
+
+const unquote = (value: string): string => {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (trimmed.length >= 2 && trimmed.startsWith("'") && trimmed.endsWith("'")) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  return trimmed;
+};
+
+const parseInlineList = (value: string): string[] => {
+  const inner = value.trim().slice(1, -1);
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of inner) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ',') {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+  return items.map(unquote).filter(item => item !== '');
+};
+
+const parseScalar = (value: string): FrontMatterValue => {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
+    return parseInlineList(trimmed);
+  }
+  return unquote(trimmed);
+};
+
+const isIndented = (line: string) => /^[ \t]/.test(line);
+
+// Parses the YAML-style block between `---` lines. Only the subset notes use
+// is supported: scalars, quoted strings, inline and block lists, and `|`/`>`
+// block scalars. Lines that don't fit are folded into the previous value
+// instead of being dropped.
+export const parseFrontMatter = (content: string): ParsedFrontMatter => {
+  const match = content.match(FRONT_MATTER_REGEX);
+  if (!match) {
+    return { data: {}, entries: [], body: content, bodyOffset: 0, hasFrontMatter: false };
+  }
+
+  const lines = (match[1] ?? '').split(/\r?\n/);
+  const entries: FrontMatterEntry[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const keyMatch = !isIndented(line) ? line.match(KEY_REGEX) : null;
+
+    if (!keyMatch) {
+      // Stray line: continue the previous value when there is one
+      const last = entries[entries.length - 1];
+      if (last && line.trim() !== '' && typeof last.value === 'string') {
+        last.value = `${last.value} ${line.trim()}`.trim();
+        last.endLine = i + 1;
+      }
+      i++;
+      continue;
+    }
+
+    const key = keyMatch[1].trim();
+    const rawValue = keyMatch[2] ?? '';
+    const startLine = i;
+    i++;
+
+    let value: FrontMatterValue;
+    const blockScalar = rawValue.trim().match(/^([|>])[+-]?$/);
+    if (blockScalar) {
+      const blockLines: string[] = [];
+      while (i < lines.length && (isIndented(lines[i]) || lines[i].trim() === '')) {
+        blockLines.push(lines[i]);
+        i++;
+      }
+      const indent = Math.min(...blockLines.filter(l => l.trim() !== '').map(l => l.match(/^\s*/)![0].length), Infinity);
+      const dedented = blockLines.map(l => l.slice(Number.isFinite(indent) ? indent : 0));
+      value = blockScalar[1] === '|'
+        ? dedented.join('\n').replace(/\n+$/, '')
+        : dedented.map(l => l.trim()).join(' ').replace(/\s+/g, ' ').trim();
+    } else if (rawValue.trim() === '' && i < lines.length && LIST_ITEM_REGEX.test(lines[i])) {
+      const items: string[] = [];
+      while (i < lines.length && LIST_ITEM_REGEX.test(lines[i])) {
+        const item = lines[i].match(LIST_ITEM_REGEX)![1] ?? '';
+        if (item.trim() !== '') items.push(unquote(item));
+        i++;
+      }
+      value = items;
+    } else {
+      let text = rawValue;
+      // Plain multi-line scalar: indented continuation lines fold into one value
+      while (i < lines.length && isIndented(lines[i]) && lines[i].trim() !== '') {
+        text = `${text} ${lines[i].trim()}`;
+        i++;
+      }
+      value = parseScalar(text);
+    }
+
+    entries.push({ key, value, startLine, endLine: i });
+  }
+
+  const data: FrontMatterData = {};
+  entries.forEach(entry => {
+    data[entry.key] = entry.value;
+  });
+
+  return {
+    data,
+    entries,
+    body: content.slice(match[0].length),
+    bodyOffset: match[0].length,
+    hasFrontMatter: true,
+  };
+};
+
+const needsQuotes = (value: string) => {
+  return value === ''
+    || /^[\s\-?:,[\]{}#&*!|>'"%@`]/.test(value)
+    || /\s$/.test(value)
+    || /: |\s#/.test(value)
+    || /^(true|false|null|yes|no|~)$/i.test(value);
+};
+
+const serializeScalar = (value: string) => (needsQuotes(value) ? JSON.stringify(value) : value);
+
+const serializeEntry = (key: string, value: FrontMatterValue): string => {
+  if (Array.isArray(value)) {
+    return `${key}: [${value.map(v => (/[,[\]]/.test(v) ? JSON.stringify(v) : serializeScalar(v))).join(', ')}]`;
+  }
+  if (value.includes('\n')) {
+    return `${key}: |\n${value.split('\n').map(l => `  ${l}`).join('\n')}`;
+  }
+  return `${key}: ${serializeScalar(value)}`;
+};
+
+export const serializeFrontMatter = (data: FrontMatterData): string => {
+  const lines = Object.entries(data).map(([key, value]) => serializeEntry(key, value));
+  return `---\n${lines.join('\n')}\n---\n`;
+};
+
+// Rewrites only the given keys and leaves every other line untouched.
+// `undefined` removes a key.
+export const updateFrontMatter = (content: string, updates: Record<string, FrontMatterValue | undefined>): string => {
+  const parsed = parseFrontMatter(content);
+  if (!parsed.hasFrontMatter) {
+    const data: FrontMatterData = {};
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value !== undefined) data[key] = value;
+    });
+    if (Object.keys(data).length === 0) return content;
+    return `${serializeFrontMatter(data)}\n${content}`;
+  }
+
+  const match = content.match(FRONT_MATTER_REGEX)!;
+  const lines = match[1] ? match[1].split(/\r?\n/) : [];
+  const replacements = new Map<number, { endLine: number; text: string | null }>();
+  const pending = { ...updates };
+
+  parsed.entries.forEach(entry => {
+    if (!(entry.key in pending)) return;
+    const value = pending[entry.key];
+    replacements.set(entry.startLine, {
+      endLine: entry.endLine,
+      text: value === undefined ? null : serializeEntry(entry.key, value),
+    });
+    delete pending[entry.key];
+  });
+
+  const output: string[] = [];
+  for (let i = 0; i < lines.length;) {
+    const replacement = replacements.get(i);
+    if (replacement) {
+      if (replacement.text !== null) output.push(replacement.text);
+      i = replacement.endLine;
+    } else {
+      output.push(lines[i]);
+      i++;
+    }
+  }
+  Object.entries(pending).forEach(([key, value]) => {
+    if (value !== undefined) output.push(serializeEntry(key, value));
+  });
+
+  return `---\n${output.join('\n')}\n---\n${parsed.body}`;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// `YYYY-MM-DD HH:mm` in local time, as written to `created_at`
+export const formatFrontMatterDate = (date: Date): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const REMINDER_REGEX = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2}))?$/;
+// A date without a time reminds in the morning
+const DEFAULT_REMINDER_HOUR = 9;
+
+// `2024-05-01 14:30` or `2024-05-01` in local time; other ISO dates as parsed by Date
+export const parseReminder = (value: string): number | undefined => {
+  const text = value.trim();
+  const match = text.match(REMINDER_REGEX);
+  if (!match) {
+    const parsed = /^\d{4}-\d{2}-\d{2}T/.test(text) ? Date.parse(text) : NaN;
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+  const hours = match[4] === undefined ? DEFAULT_REMINDER_HOUR : Number(match[4]);
+  const minutes = match[5] === undefined ? 0 : Number(match[5]);
+  const date = new Date(year, month, day, hours, minutes);
+  // Rejects e.g. 2024-02-31, which Date would roll over into March
+  if (date.getMonth() !== month || date.getDate() !== day || hours > 23 || minutes > 59) return undefined;
+  return date.getTime();
+};
+
+export const getFrontMatterString = (data: FrontMatterData, key: string): string | undefined => {
+  const value = data[key];
+  if (value === undefined) return undefined;
+  return Array.isArray(value) ? value.join(', ') : value;
+};
+
+const normalizeTag = (tag: string) => tag.trim().replace(/^#/, '').trim();
+
+// `tags: [a, b]`, a block list, or `tags: a, b` / `tags: #a #b`
+export const getTags = (content: string): string[] => {
+  const { data } = parseFrontMatter(content);
+  const value = data.tags;
+  if (value === undefined) return [];
+  const raw = Array.isArray(value) ? value : value.split(/[,\s]+/);
+  return [...new Set(raw.map(normalizeTag).filter(tag => tag !== ''))];
+};
+
+// Undefined when the note has no `remind` key or it isn't a date
+export const getReminder = (content: string): number | undefined => {
+  const value = getFrontMatterString(parseFrontMatter(content).data, 'remind');
+  return value === undefined ? undefined : parseReminder(value);
+};
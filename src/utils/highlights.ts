@@ -0,0 +1,17 @@
+import type { PageHighlight } from '../types';
+import { getMemosByDomain } from './storage';
+import { getScopeSettings, matchesPage } from './scope';
+
+// Highlights saved for a page, across every note visible on it
+export const getPageHighlights = async (url: string): Promise<PageHighlight[]> => {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return [];
+  }
+  const [memos, scopeSettings] = await Promise.all([getMemosByDomain(hostname, url), getScopeSettings()]);
+  return memos.flatMap((memo) => (memo.anchors || [])
+    .filter((anchor) => matchesPage(anchor, url, scopeSettings))
+    .map((anchor) => ({ memoId: memo.id, anchor })));
+};
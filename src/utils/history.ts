@@ -0,0 +1,83 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Memo, MemoRevision } from '../types';
+import { storageArea, withStorageLock } from './storageArea';
+
+const HISTORY_KEY_PREFIX = 'history:';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Newer revisions are kept densely and older ones thinned out:
+// every save of the last hour, then one per 10 minutes for a day,
+// one per day for a month and one per week for a year.
+const RETENTION_TIERS = [
+  { maxAge: HOUR, interval: 0 },
+  { maxAge: DAY, interval: 10 * MINUTE },
+  { maxAge: 30 * DAY, interval: DAY },
+  { maxAge: 365 * DAY, interval: 7 * DAY },
+];
+
+const MAX_REVISIONS = 200;
+
+export const historyKey = (memoId: string) => `${HISTORY_KEY_PREFIX}${memoId}`;
+
+// Expects revisions newest first; keeps the newest revision of each bucket
+export const pruneRevisions = (revisions: MemoRevision[], now: number = Date.now()): MemoRevision[] => {
+  const kept: MemoRevision[] = [];
+  const seenBuckets = new Set<string>();
+
+  revisions.forEach((revision, i) => {
+    // The latest snapshot always survives, however old it is
+    if (i === 0) {
+      kept.push(revision);
+      return;
+    }
+    const age = now - revision.savedAt;
+    const tierIndex = RETENTION_TIERS.findIndex(tier => age < tier.maxAge);
+    if (tierIndex === -1) return;
+
+    const { interval } = RETENTION_TIERS[tierIndex];
+    if (interval === 0) {
+      kept.push(revision);
+      return;
+    }
+    const bucket = `${tierIndex}:${Math.floor(revision.savedAt / interval)}`;
+    if (seenBuckets.has(bucket)) return;
+    seenBuckets.add(bucket);
+    kept.push(revision);
+  });
+
+  return kept.slice(0, MAX_REVISIONS);
+};
+
+const readRevisions = async (memoId: string): Promise<MemoRevision[]> => {
+  const key = historyKey(memoId);
+  const result = await storageArea.get([key]);
+  return (result[key] || []) as MemoRevision[];
+};
+
+export const getRevisions = async (memoId: string): Promise<MemoRevision[]> => {
+  const revisions = await readRevisions(memoId);
+  return [...revisions].sort((a, b) => b.savedAt - a.savedAt);
+};
+
+// Snapshots the saved state of a note unless nothing visible changed
+export const appendRevision = (memo: Memo) => withStorageLock(async () => {
+  const revisions = await getRevisions(memo.id);
+  const latest = revisions[0];
+  if (latest && latest.content === memo.content && latest.title === memo.title) return;
+
+  const revision: MemoRevision = {
+    id: uuidv4(),
+    memoId: memo.id,
+    title: memo.title,
+    content: memo.content,
+    savedAt: memo.updatedAt,
+  };
+  await storageArea.set({ [historyKey(memo.id)]: pruneRevisions([revision, ...revisions]) });
+});
+
+export const deleteHistory = async (memoId: string): Promise<void> => {
+  await storageArea.remove([historyKey(memoId)]);
+};
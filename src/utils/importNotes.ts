@@ -0,0 +1,255 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { v4 as uuidv4 } from 'uuid';
+import type { Attachment, Memo, MemoAnchor, UrlNormalizationSettings } from '../types';
+import { getFrontMatterString, getReminder, getTags, parseFrontMatter } from './frontMatter';
+import { getAllMemos, getTrashedMemos, saveMemos } from './storage';
+import { getUrlSettings, normalizeUrl } from './url';
+import { sanitizeFileName, toMarkdownFile } from './markdownExport';
+import { checkMemo, type ParsedBackup } from './backup';
+import { attachmentFromFile, importAttachments, isAttachmentPath, restoreAttachmentLinks } from './attachments';
+
+export interface ImportSource {
+  path: string;
+  text: string;
+  lastModified?: number;
+}
+
+export interface ImportFiles {
+  sources: ImportSource[];
+  attachments: Attachment[]; // From the attachments folder of our Markdown exports
+}
+
+// An incoming note and the local note it would replace, if any
+export interface ImportCandidate {
+  path: string;
+  memo: Memo;
+  existing?: Memo;
+  skipReason?: string;
+}
+
+// What to do when an incoming note matches a local one
+export type ImportStrategy = 'newer' | 'both' | 'overwrite';
+
+export type ImportAction = 'create' | 'copy' | 'overwrite' | 'skip';
+
+export interface ImportItem extends ImportCandidate {
+  action: ImportAction;
+  reason?: string;
+}
+
+const MARKDOWN_FILE = /\.(md|markdown)$/i;
+// Folders other tools keep next to the notes
+const IGNORED_PATH = /(^|\/)(__MACOSX|\.[^/]+)\//;
+// Our own exports use one folder per domain
+const HOST_LIKE = /^(?:[a-z0-9-]+\.)+[a-z]{2,}$/i;
+
+const isMarkdownPath = (path: string) => MARKDOWN_FILE.test(path) && !IGNORED_PATH.test(path);
+
+// Reads `.md` files and `.zip` archives of them, e.g. from a folder picker
+export const readImportFiles = async (files: File[]): Promise<ImportFiles> => {
+  const sources: ImportSource[] = [];
+  const attachments: Attachment[] = [];
+  for (const file of files) {
+    const path = file.webkitRelativePath || file.name;
+    if (/\.zip$/i.test(file.name)) {
+      const entries = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+        filter: (entry) => isMarkdownPath(entry.name) || isAttachmentPath(entry.name),
+      });
+      Object.entries(entries).forEach(([name, data]) => {
+        if (isMarkdownPath(name)) {
+          sources.push({ path: name, text: strFromU8(data), lastModified: file.lastModified });
+          return;
+        }
+        // fflate allocates plain ArrayBuffers, never shared ones
+        const attachment = attachmentFromFile(name, data as Uint8Array<ArrayBuffer>, file.lastModified);
+        if (attachment) attachments.push(attachment);
+      });
+    } else if (isMarkdownPath(path)) {
+      sources.push({ path, text: await file.text(), lastModified: file.lastModified });
+    } else {
+      const attachment = attachmentFromFile(path, file, file.lastModified);
+      if (attachment) attachments.push(attachment);
+    }
+  }
+  return { sources, attachments };
+};
+
+// Accepts our `YYYY-MM-DD HH:mm` as local time as well as ISO dates
+const parseDate = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+  const time = Date.parse(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}/.test(value) ? value.replace(' ', 'T') : value);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+const baseName = (path: string) => path.split('/').pop()!.replace(MARKDOWN_FILE, '');
+
+const folderDomain = (path: string) => {
+  const folders = path.split('/').slice(0, -1);
+  return [...folders].reverse().find((folder) => HOST_LIKE.test(folder))?.toLowerCase() || '';
+};
+
+// Maps front matter back to note fields: `URL` gives the page and domain,
+// `title` (or the file name) the title, `created_at`/`updated_at` the timestamps
+export const memoFromMarkdown = (source: ImportSource, urlSettings: UrlNormalizationSettings): Memo => {
+  const text = restoreAttachmentLinks(source.text);
+  const { data } = parseFrontMatter(text);
+  const rawUrl = getFrontMatterString(data, 'URL') ?? getFrontMatterString(data, 'url') ?? '';
+
+  let url = '';
+  let domain = folderDomain(source.path);
+  try {
+    const parsed = new URL(rawUrl.trim());
+    if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
+      url = normalizeUrl(parsed.href, urlSettings);
+      domain = parsed.hostname;
+    }
+  } catch {
+    // No usable URL; the note is still searchable under All Notes
+  }
+
+  const fallbackTime = source.lastModified ?? Date.now();
+  const createdAt = parseDate(getFrontMatterString(data, 'created_at') ?? getFrontMatterString(data, 'created') ?? getFrontMatterString(data, 'date'));
+  const updatedAt = parseDate(getFrontMatterString(data, 'updated_at') ?? getFrontMatterString(data, 'updated') ?? getFrontMatterString(data, 'modified'));
+
+  return {
+    id: uuidv4(),
+    title: getFrontMatterString(data, 'title')?.trim() || baseName(source.path),
+    content: text,
+    domain,
+    url,
+    isUrlSpecific: false,
+    tags: getTags(text),
+    remindAt: getReminder(text),
+    createdAt: createdAt ?? updatedAt ?? fallbackTime,
+    updatedAt: updatedAt ?? fallbackTime,
+  };
+};
+
+const pageKey = (memo: Pick<Memo, 'domain' | 'url'>) => `${memo.domain}\n${memo.url}`;
+
+// A file is the same note as an existing one on the same page when the title
+// matches, or when the file name is that note's exported name (our exports
+// keep the page title in the front matter and the note title in the name)
+const findExisting = (memo: Memo, path: string, candidates: Memo[]) => {
+  const fileName = baseName(path).replace(/ \(\d+\)$/, '');
+  return candidates.find((candidate) => candidate.title.trim() === memo.title)
+    ?? candidates.find((candidate) => sanitizeFileName(candidate.title || 'Untitled') === fileName);
+};
+
+// Pairs each file with the note it would replace, without saving anything
+export const planMarkdownImport = async (sources: ImportSource[]): Promise<ImportCandidate[]> => {
+  const urlSettings = await getUrlSettings();
+  const byPage = new Map<string, Memo[]>();
+  (await getAllMemos()).forEach((memo) => {
+    byPage.set(pageKey(memo), [...(byPage.get(pageKey(memo)) || []), memo]);
+  });
+  const claimed = new Set<string>();
+
+  return sources.map((source): ImportCandidate => {
+    const memo = memoFromMarkdown(source, urlSettings);
+    if (source.text.trim() === '') {
+      return { path: source.path, memo, skipReason: 'Empty file' };
+    }
+
+    const match = findExisting(memo, source.path, byPage.get(pageKey(memo)) || []);
+    if (!match) return { path: source.path, memo };
+    if (claimed.has(match.id)) {
+      return { path: source.path, memo, existing: match, skipReason: 'Another file in this import matches the same note' };
+    }
+    claimed.add(match.id);
+
+    if (toMarkdownFile(match) === memo.content) {
+      return { path: source.path, memo, existing: match, skipReason: 'Already up to date' };
+    }
+    // Keep the identity and the page highlights of the note being replaced
+    return {
+      path: source.path,
+      memo: { ...memo, id: match.id, title: match.title, isUrlSpecific: match.isUrlSpecific, anchors: match.anchors },
+      existing: match,
+    };
+  });
+};
+
+// Expects an entry that passed `checkMemo`
+const memoFromJson = (m: Record<string, unknown>): Memo => ({
+  id: m.id as string,
+  title: typeof m.title === 'string' && m.title ? m.title : 'Untitled',
+  content: m.content as string,
+  domain: m.domain as string,
+  url: typeof m.url === 'string' ? m.url : '',
+  isUrlSpecific: !!m.isUrlSpecific,
+  tags: getTags(m.content as string),
+  remindAt: getReminder(m.content as string),
+  createdAt: typeof m.createdAt === 'number' ? m.createdAt : Date.now(),
+  updatedAt: typeof m.updatedAt === 'number' ? m.updatedAt : Date.now(),
+  deletedAt: typeof m.deletedAt === 'number' ? m.deletedAt : undefined,
+  anchors: Array.isArray(m.anchors) ? (m.anchors as MemoAnchor[]) : undefined,
+});
+
+const EMPTY_MEMO: Memo = {
+  id: '',
+  title: 'Untitled',
+  content: '',
+  domain: '',
+  url: '',
+  isUrlSpecific: false,
+  tags: [],
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+// Notes in a JSON backup keep their IDs, so they match local notes by ID
+export const planJsonImport = async (backup: ParsedBackup, fileName: string): Promise<ImportCandidate[]> => {
+  const local = new Map([...(await getAllMemos()), ...(await getTrashedMemos())].map((memo) => [memo.id, memo]));
+  const seen = new Set<string>();
+
+  return backup.memos.map((value, i): ImportCandidate => {
+    const path = `${fileName} #${i + 1}`;
+    const problems = checkMemo(value);
+    if (problems.length > 0) {
+      const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+      const title = typeof raw.title === 'string' && raw.title ? raw.title : 'Untitled';
+      return { path, memo: { ...EMPTY_MEMO, id: uuidv4(), title }, skipReason: `Invalid note: ${problems.join('; ')}` };
+    }
+    const memo = memoFromJson(value as Record<string, unknown>);
+    if (seen.has(memo.id)) {
+      return { path, memo, skipReason: 'Another entry in this file has the same ID' };
+    }
+    seen.add(memo.id);
+
+    const existing = local.get(memo.id);
+    if (existing && existing.content === memo.content && existing.title === memo.title && existing.deletedAt === memo.deletedAt) {
+      return { path, memo, existing, skipReason: 'Already up to date' };
+    }
+    return { path, memo, existing };
+  });
+};
+
+// Decides per note what the import does under the chosen strategy
+export const resolveImport = (candidates: ImportCandidate[], strategy: ImportStrategy): ImportItem[] => {
+  return candidates.map((candidate): ImportItem => {
+    const { existing, skipReason } = candidate;
+    if (skipReason) return { ...candidate, action: 'skip', reason: skipReason };
+    if (!existing) return { ...candidate, action: 'create' };
+
+    switch (strategy) {
+      case 'overwrite':
+        return { ...candidate, action: 'overwrite' };
+      case 'both':
+        return { ...candidate, memo: { ...candidate.memo, id: uuidv4() }, action: 'copy', reason: 'Imported as a separate note' };
+      default:
+        return candidate.memo.updatedAt > existing.updatedAt
+          ? { ...candidate, action: 'overwrite', reason: 'Imported copy is newer' }
+          : { ...candidate, action: 'skip', reason: 'Local copy is newer' };
+    }
+  });
+};
+
+// Saves every note in one write: a failure leaves the existing notes untouched.
+// Attachments go first, so no imported note links to a missing one.
+export const applyImport = async (items: ImportItem[], attachments: Attachment[] = []): Promise<number> => {
+  const toSave = items.filter((item) => item.action !== 'skip').map((item) => item.memo);
+  await importAttachments(attachments);
+  await saveMemos(toSave);
+  return toSave.length;
+};
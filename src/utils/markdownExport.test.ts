@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeFileName } from './markdownExport';
+
+describe('sanitizeFileName', () => {
+  it('replaces characters that are not allowed in file names', () => {
+    expect(sanitizeFileName('a/b\\c:d*e?f"g<h>i|j')).toBe('a_b_c_d_e_f_g_h_i_j');
+  });
+
+  it('removes control characters', () => {
+    expect(sanitizeFileName('tab\there\u0000\u001f\u007fdone\n')).toBe('tabheredone');
+  });
+
+  it('trims spaces and leading or trailing dots', () => {
+    expect(sanitizeFileName('  ..hidden. ')).toBe('hidden');
+    expect(sanitizeFileName(' ... ')).toBe('Untitled');
+  });
+
+  it('keeps names clear of Windows device names', () => {
+    expect(sanitizeFileName('CON')).toBe('CON_');
+    expect(sanitizeFileName('nul')).toBe('nul_');
+    expect(sanitizeFileName('com1.backup')).toBe('com1_.backup');
+    expect(sanitizeFileName('LPT9')).toBe('LPT9_');
+    expect(sanitizeFileName('Console')).toBe('Console');
+    expect(sanitizeFileName('COM10')).toBe('COM10');
+  });
+
+  it('shortens long names', () => {
+    expect(sanitizeFileName('x'.repeat(300))).toHaveLength(100);
+  });
+});
@@ -0,0 +1,105 @@
+import { strToU8, zipSync } from 'fflate';
+import type { Memo } from '../types';
+import { formatFrontMatterDate, parseFrontMatter, updateFrontMatter, type FrontMatterValue } from './frontMatter';
+import { ATTACHMENT_FOLDER, attachmentFileName, getAttachmentIds, getAttachments, replaceAttachmentRefs } from './attachments';
+
+const MAX_NAME_LENGTH = 100;
+
+// Device names Windows won't use for a file, whatever the extension
+const RESERVED_NAME = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])$/i;
+
+const isControlChar = (char: string) => char.charCodeAt(0) <= 0x1f || char.charCodeAt(0) === 0x7f;
+
+// Safe on Windows, macOS and Linux, and inside ZIP paths
+export const sanitizeFileName = (name: string) => {
+  const cleaned = [...name]
+    .filter((char) => !isControlChar(char))
+    .join('')
+    .replace(/[<>:"/\\|?*]/g, '_')
+    .trim()
+    .replace(/^\.+|\.+$/g, '')
+    .slice(0, MAX_NAME_LENGTH)
+    .trim();
+  const [base, ...extensions] = cleaned.split('.');
+  if (RESERVED_NAME.test(base.trim())) return [`${base}_`, ...extensions].join('.');
+  return cleaned || 'Untitled';
+};
+
+export const downloadFile = (data: BlobPart, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const downloadAnchorNode = document.createElement('a');
+  downloadAnchorNode.setAttribute("href", url);
+  downloadAnchorNode.setAttribute("download", fileName);
+  document.body.appendChild(downloadAnchorNode);
+  downloadAnchorNode.click();
+  downloadAnchorNode.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Note content with the metadata other Markdown tools expect in the front
+// matter. Keys the note already has are left alone, except `updated_at`.
+export const toMarkdownFile = (memo: Memo): string => {
+  const { data } = parseFrontMatter(memo.content);
+  const updates: Record<string, FrontMatterValue> = {};
+  if (data.URL === undefined && data.url === undefined) updates.URL = memo.url;
+  if (data.title === undefined) updates.title = memo.title;
+  if (data.created_at === undefined) updates.created_at = formatFrontMatterDate(new Date(memo.createdAt));
+  updates.updated_at = formatFrontMatterDate(new Date(memo.updatedAt));
+  if (data.tags === undefined && memo.tags.length > 0) updates.tags = memo.tags;
+  return updateFrontMatter(memo.content, updates);
+};
+
+// Appends " (2)", " (3)", ... until the name is free. Compared case-insensitively
+// because most file systems are.
+const uniqueName = (base: string, extension: string, taken: Set<string>) => {
+  let name = `${base}${extension}`;
+  for (let n = 2; taken.has(name.toLowerCase()); n++) {
+    name = `${base} (${n})${extension}`;
+  }
+  taken.add(name.toLowerCase());
+  return name;
+};
+
+export interface ZipAttachment {
+  id: string;
+  type: string;
+  data: Uint8Array;
+}
+
+// One folder per domain with a `.md` file per note, ready to open as an Obsidian vault.
+// Attachments go into their own folder and the notes link to the files.
+export const buildMarkdownZip = (memos: Memo[], attachments: ZipAttachment[] = []): Uint8Array => {
+  const folders = new Map<string, Set<string>>();
+  const files: Record<string, Uint8Array> = {};
+  const attachmentPaths = new Map<string, string>();
+  attachments.forEach((attachment) => {
+    const fileName = attachmentFileName(attachment.id, attachment.type);
+    files[`${ATTACHMENT_FOLDER}/${fileName}`] = attachment.data;
+    attachmentPaths.set(attachment.id, `../${ATTACHMENT_FOLDER}/${fileName}`);
+  });
+
+  [...memos]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach((memo) => {
+      const folder = sanitizeFileName(memo.domain || 'no-domain');
+      if (!folders.has(folder)) folders.set(folder, new Set());
+      const name = uniqueName(sanitizeFileName(memo.title || 'Untitled'), '.md', folders.get(folder)!);
+      const content = replaceAttachmentRefs(toMarkdownFile(memo), (id) => attachmentPaths.get(id) ?? null);
+      files[`${folder}/${name}`] = strToU8(content);
+    });
+
+  return zipSync(files, { level: 6, mtime: new Date() });
+};
+
+export const downloadMarkdownZip = async (memos: Memo[], label: string) => {
+  const date = formatFrontMatterDate(new Date()).slice(0, 10);
+  const linked = await getAttachments([...new Set(memos.flatMap((memo) => getAttachmentIds(memo.content)))]);
+  const attachments = await Promise.all(linked.map(async (attachment): Promise<ZipAttachment> => ({
+    id: attachment.id,
+    type: attachment.blob.type,
+    data: new Uint8Array(await attachment.blob.arrayBuffer()),
+  })));
+  // fflate allocates plain ArrayBuffers, never shared ones
+  const zip = buildMarkdownZip(memos, attachments) as Uint8Array<ArrayBuffer>;
+  downloadFile(zip, `${sanitizeFileName(`${label}-${date}`)}.zip`, 'application/zip');
+};
@@ -0,0 +1,40 @@
+import type { SearchResult } from './search';
+
+// Suggestions for the `notes` keyword in the address bar. Descriptions are
+// XML with <match>, <dim> and <url> as the only styling.
+
+const NOTE_PREFIX = 'note:';
+const SNIPPET_LENGTH = 80;
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const snippetXml = (result: SearchResult) => {
+  let length = 0;
+  return result.snippet
+    .map((segment) => {
+      const text = segment.text.replace(/\s+/g, ' ').slice(0, Math.max(0, SNIPPET_LENGTH - length));
+      length += text.length;
+      return segment.highlight ? `<match>${escapeXml(text)}</match>` : escapeXml(text);
+    })
+    .join('');
+};
+
+export const toSuggestion = (result: SearchResult): chrome.omnibox.SuggestResult => ({
+  // Entered when the suggestion is picked; must be unique among the suggestions
+  content: `${NOTE_PREFIX}${result.memo.id}`,
+  description: `${escapeXml(result.memo.title || 'Untitled')} <dim>${escapeXml(result.memo.domain)}</dim> - ${snippetXml(result)}`,
+});
+
+// The note ID of a picked suggestion, or null for text the user typed
+export const noteIdFromInput = (text: string): string | null => {
+  return text.startsWith(NOTE_PREFIX) ? text.slice(NOTE_PREFIX.length) : null;
+};
+
+export const describeDefault = (hasMatches: boolean) => (hasMatches
+  ? 'Open the best matching note for: <match>%s</match>'
+  : 'No matching notes. Create a note for the current page with: <match>%s</match>');
@@ -0,0 +1,54 @@
+import type { MemoMessage, PanelIntent } from '../types';
+
+// Work for the side panel, queued per tab in the background worker until the
+// panel for that tab says it is ready. A panel opened just now asks on
+// mount; an open one is told that something is waiting. Taking the intents
+// removes them, so each one is handled exactly once.
+
+const INTENT_KEY_PREFIX = 'panelIntents:';
+// An intent the panel never picked up (e.g. it failed to open) shouldn't
+// fire whenever the panel is opened later
+const INTENT_TTL_MS = 60 * 1000;
+
+interface QueuedIntent {
+  intent: PanelIntent;
+  queuedAt: number;
+}
+
+const intentKey = (tabId: number) => `${INTENT_KEY_PREFIX}${tabId}`;
+
+let queueUpdate: Promise<unknown> = Promise.resolve();
+
+// Session storage outlives a worker restart while the panel loads; reads and
+// writes go one at a time so a take never races a queue
+const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queueUpdate.then(task, task);
+  queueUpdate = run.catch(() => undefined);
+  return run;
+};
+
+const readQueue = async (tabId: number): Promise<QueuedIntent[]> => {
+  const result = await chrome.storage.session.get(intentKey(tabId));
+  return (result[intentKey(tabId)] || []) as QueuedIntent[];
+};
+
+export const queuePanelIntent = async (tabId: number, intent: PanelIntent): Promise<void> => {
+  await serialize(async () => {
+    const queue = await readQueue(tabId);
+    await chrome.storage.session.set({ [intentKey(tabId)]: [...queue, { intent, queuedAt: Date.now() }] });
+  });
+  // Nobody listens while the panel is still loading; it asks on mount instead
+  chrome.runtime.sendMessage({ type: 'INTENTS_PENDING', tabId } satisfies MemoMessage).catch(() => {});
+};
+
+export const takePanelIntents = (tabId: number): Promise<PanelIntent[]> => serialize(async () => {
+  const queue = await readQueue(tabId);
+  if (queue.length === 0) return [];
+  await chrome.storage.session.remove(intentKey(tabId));
+  const now = Date.now();
+  return queue.filter((queued) => now - queued.queuedAt < INTENT_TTL_MS).map((queued) => queued.intent);
+});
+
+export const clearPanelIntents = (tabId: number): Promise<void> => serialize(async () => {
+  await chrome.storage.session.remove(intentKey(tabId));
+});
@@ -0,0 +1,46 @@
+// Trimmed copy of the Public Suffix List (https://publicsuffix.org/list/).
+// Single-label TLDs are implied by the default `*` rule, so only multi-label
+// suffixes and popular hosting platforms need to be listed here.
+// Rule syntax follows the list: `*.` wildcards and `!` exceptions.
+export const PUBLIC_SUFFIXES: string[] = [
+  // Generic second-level domains
+  'ac.uk', 'co.uk', 'gov.uk', 'ltd.uk', 'me.uk', 'net.uk', 'nhs.uk', 'org.uk', 'plc.uk', 'police.uk', 'sch.uk',
+  'ac.jp', 'ad.jp', 'co.jp', 'ed.jp', 'go.jp', 'gr.jp', 'lg.jp', 'ne.jp', 'or.jp',
+  'asn.au', 'com.au', 'edu.au', 'gov.au', 'id.au', 'net.au', 'org.au',
+  'ac.nz', 'co.nz', 'geek.nz', 'gen.nz', 'govt.nz', 'net.nz', 'org.nz', 'school.nz',
+  'co.za', 'gov.za', 'net.za', 'org.za', 'web.za',
+  'com.br', 'gov.br', 'net.br', 'org.br', 'edu.br',
+  'com.cn', 'edu.cn', 'gov.cn', 'net.cn', 'org.cn',
+  'com.hk', 'edu.hk', 'gov.hk', 'net.hk', 'org.hk',
+  'com.tw', 'edu.tw', 'gov.tw', 'net.tw', 'org.tw',
+  'ac.kr', 'co.kr', 'go.kr', 'ne.kr', 'or.kr', 're.kr',
+  'ac.in', 'co.in', 'edu.in', 'gov.in', 'net.in', 'org.in', 'firm.in', 'gen.in', 'ind.in',
+  'com.sg', 'edu.sg', 'gov.sg', 'net.sg', 'org.sg',
+  'com.my', 'edu.my', 'gov.my', 'net.my', 'org.my',
+  'co.id', 'ac.id', 'go.id', 'or.id', 'web.id',
+  'co.th', 'ac.th', 'go.th', 'in.th', 'or.th',
+  'com.mx', 'edu.mx', 'gob.mx', 'net.mx', 'org.mx',
+  'com.ar', 'edu.ar', 'gob.ar', 'net.ar', 'org.ar',
+  'com.tr', 'edu.tr', 'gov.tr', 'net.tr', 'org.tr',
+  'com.ua', 'edu.ua', 'gov.ua', 'net.ua', 'org.ua',
+  'co.il', 'ac.il', 'gov.il', 'org.il', 'net.il',
+  'com.pl', 'net.pl', 'org.pl', 'gov.pl',
+  'com.es', 'org.es', 'gob.es', 'edu.es',
+  'co.at', 'or.at', 'gv.at', 'ac.at',
+  'com.ru', 'net.ru', 'org.ru',
+  'com.vn', 'edu.vn', 'gov.vn', 'net.vn', 'org.vn',
+  'com.ph', 'edu.ph', 'gov.ph', 'net.ph', 'org.ph',
+  'com.sa', 'edu.sa', 'gov.sa', 'net.sa', 'org.sa',
+  'com.eg', 'edu.eg', 'gov.eg', 'net.eg', 'org.eg',
+  'com.ng', 'edu.ng', 'gov.ng', 'net.ng', 'org.ng',
+  'co.ke', 'ac.ke', 'go.ke', 'or.ke',
+  '*.ck', '!www.ck',
+  '*.bd',
+  '*.np',
+  // Private registrations: every subdomain belongs to a different owner
+  'github.io', 'githubusercontent.com', 'gitlab.io', 'bitbucket.io',
+  'herokuapp.com', 'vercel.app', 'netlify.app', 'pages.dev', 'workers.dev', 'web.app', 'firebaseapp.com',
+  'appspot.com', 'blogspot.com', 'wordpress.com', 'tumblr.com', 'substack.com', 'glitch.me', 'repl.co',
+  'cloudfront.net', 'azurewebsites.net', 'amplifyapp.com', 'onrender.com', 'fly.dev', 'deno.dev',
+  's3.amazonaws.com', 'readthedocs.io', 'ngrok.io', 'ngrok-free.app',
+];
@@ -0,0 +1,93 @@
+import { getMemo, getMemoIndex } from './storage';
+import { storageArea } from './storageArea';
+
+// One alarm per note with a reminder, named after the note. The notification
+// for it uses the same name, so a click leads back to the note. Alarms may
+// not survive a browser restart, so they are rebuilt from the note index on
+// every worker start and whenever the index changes.
+
+const REMINDER_PREFIX = 'reminder:';
+// memo ID -> the reminder time already shown, so a reminder that came due
+// while the browser was closed is shown once on the next start, not on every one
+const SHOWN_REMINDERS_KEY = 'shownReminders';
+// Chrome may move a one-off alarm a little; only a real change is rescheduled
+const SCHEDULE_TOLERANCE_MS = 60 * 1000;
+
+export const reminderName = (memoId: string) => `${REMINDER_PREFIX}${memoId}`;
+
+// Memo ID for a reminder alarm or notification, otherwise null
+export const memoIdFromReminder = (name: string): string | null => (
+  name.startsWith(REMINDER_PREFIX) ? name.slice(REMINDER_PREFIX.length) : null
+);
+
+let reminderUpdate: Promise<unknown> = Promise.resolve();
+
+// One at a time, so an alarm firing during a reschedule isn't shown twice
+const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = reminderUpdate.then(task, task);
+  reminderUpdate = run.catch(() => undefined);
+  return run;
+};
+
+const readShown = async (): Promise<Record<string, number>> => {
+  const result = await storageArea.get([SHOWN_REMINDERS_KEY]);
+  return (result[SHOWN_REMINDERS_KEY] || {}) as Record<string, number>;
+};
+
+const notify = async (memoId: string, shown: Record<string, number>) => {
+  const memo = await getMemo(memoId);
+  if (!memo || memo.deletedAt || memo.remindAt === undefined || shown[memo.id] === memo.remindAt) return;
+  // Moved to later since the alarm was set
+  if (memo.remindAt > Date.now() + SCHEDULE_TOLERANCE_MS) return;
+
+  await storageArea.set({ [SHOWN_REMINDERS_KEY]: { ...shown, [memo.id]: memo.remindAt } });
+  await chrome.notifications.create(reminderName(memo.id), {
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL('icons/note-128.png'),
+    title: memo.title || 'Untitled',
+    message: memo.url || memo.domain,
+    contextMessage: `Reminder for ${new Date(memo.remindAt).toLocaleString()}`,
+    requireInteraction: true,
+  });
+};
+
+// Shows the notification for a reminder alarm that went off
+export const showReminder = (alarmName: string): Promise<void> => serialize(async () => {
+  const memoId = memoIdFromReminder(alarmName);
+  if (memoId) await notify(memoId, await readShown());
+});
+
+// Brings the alarms in line with the notes: new and moved reminders are
+// scheduled, removed ones (including notes in the trash) are dropped, and
+// reminders that passed while no alarm was set are shown now
+export const scheduleReminders = (): Promise<void> => serialize(async () => {
+  const [entries, alarms, shown] = await Promise.all([getMemoIndex(), chrome.alarms.getAll(), readShown()]);
+  const wanted = new Map(entries
+    .filter((entry) => entry.remindAt !== undefined)
+    .map((entry) => [reminderName(entry.id), entry.remindAt!]));
+  const now = Date.now();
+
+  const existing = new Map(alarms.filter((alarm) => memoIdFromReminder(alarm.name)).map((alarm) => [alarm.name, alarm.scheduledTime]));
+  await Promise.all([...existing.keys()]
+    .filter((name) => !wanted.has(name))
+    .map((name) => chrome.alarms.clear(name)));
+
+  // Forget shown reminders that were removed or moved
+  const stillShown = Object.fromEntries(Object.entries(shown).filter(([id, remindAt]) => wanted.get(reminderName(id)) === remindAt));
+  if (Object.keys(stillShown).length !== Object.keys(shown).length) {
+    await storageArea.set({ [SHOWN_REMINDERS_KEY]: stillShown });
+  }
+
+  for (const [name, remindAt] of wanted) {
+    const memoId = memoIdFromReminder(name)!;
+    if (stillShown[memoId] === remindAt) continue;
+    if (remindAt <= now) {
+      await notify(memoId, await readShown());
+      continue;
+    }
+    const scheduled = existing.get(name);
+    if (scheduled === undefined || Math.abs(scheduled - remindAt) > SCHEDULE_TOLERANCE_MS) {
+      await chrome.alarms.create(name, { when: remindAt });
+    }
+  }
+});
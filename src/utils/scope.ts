@@ -0,0 +1,43 @@
+import type { Memo, ScopeSettings } from '../types';
+import { DEFAULT_DOMAIN_SETTINGS, getDomainSettings, isSameDomain, resolveDomain } from './domain';
+import { DEFAULT_URL_SETTINGS, getUrlSettings, normalizeUrl } from './url';
+
+export const DEFAULT_SCOPE_SETTINGS: ScopeSettings = {
+  url: DEFAULT_URL_SETTINGS,
+  domain: DEFAULT_DOMAIN_SETTINGS,
+};
+
+export const getScopeSettings = async (): Promise<ScopeSettings> => {
+  const [url, domain] = await Promise.all([getUrlSettings(), getDomainSettings()]);
+  return { url, domain };
+};
+
+// Normalized URL with the host replaced by its domain group,
+// so `www.example.com/a` and `example.com/a` match when grouped together.
+const pageKey = (url: string, settings: ScopeSettings): string => {
+  const normalized = normalizeUrl(url, settings.url);
+  try {
+    const urlObj = new URL(normalized);
+    return `${urlObj.protocol}//${resolveDomain(urlObj.hostname, settings.domain)}${urlObj.pathname}${urlObj.search}${urlObj.hash}`;
+  } catch {
+    return normalized;
+  }
+};
+
+// A note belongs to a page when it was written for the same normalized URL.
+export const matchesPage = (memo: Pick<Memo, 'url'>, url: string, settings: ScopeSettings = DEFAULT_SCOPE_SETTINGS): boolean => {
+  return pageKey(memo.url, settings) === pageKey(url, settings);
+};
+
+// Domain-scoped notes show up on every page of their domain group,
+// page-scoped notes only on the URL they were pinned to.
+export const isVisibleOnPage = (
+  memo: Pick<Memo, 'domain' | 'url' | 'isUrlSpecific'>,
+  domain: string,
+  url: string | null,
+  settings: ScopeSettings = DEFAULT_SCOPE_SETTINGS
+): boolean => {
+  if (!isSameDomain(memo.domain, domain, settings.domain)) return false;
+  if (!memo.isUrlSpecific) return true;
+  return url !== null && matchesPage(memo, url, settings);
+};
@@ -0,0 +1,54 @@
+import { formatFrontMatterDate } from './frontMatter';
+import { markdownLink } from './selection';
+
+export interface Screenshot {
+  dataUrl: string; // PNG of the visible part of the page
+  url: string;
+  title: string;
+  capturedAt: number;
+}
+
+// In pixels of the captured image
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The visible part of the active tab in the panel's window. Fails on pages
+// extensions can't capture, like the Web Store or other extensions.
+export const captureScreenshot = async (): Promise<Screenshot> => {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (!tab) throw new Error('No tab to capture');
+  const dataUrl = await chrome.tabs.captureVisibleTab(tab.windowId, { format: 'png' });
+  return { dataUrl, url: tab.url || '', title: tab.title || '', capturedAt: Date.now() };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Could not read the screenshot'));
+  image.src = src;
+});
+
+// The whole screenshot when `crop` is null
+export const cropScreenshot = async (screenshot: Screenshot, crop: CropRect | null): Promise<File> => {
+  const image = await loadImage(screenshot.dataUrl);
+  const area = crop ?? { x: 0, y: 0, width: image.naturalWidth, height: image.naturalHeight };
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(area.width));
+  canvas.height = Math.max(1, Math.round(area.height));
+  canvas.getContext('2d')!.drawImage(image, area.x, area.y, area.width, area.height, 0, 0, canvas.width, canvas.height);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Could not encode the screenshot');
+  const time = formatFrontMatterDate(new Date(screenshot.capturedAt)).replace(':', '-');
+  return new File([blob], `Screenshot ${time}.png`, { type: 'image/png' });
+};
+
+// The image with a caption saying where and when it was taken
+export const formatScreenshotBlock = (image: string, screenshot: Screenshot): string => {
+  const time = formatFrontMatterDate(new Date(screenshot.capturedAt));
+  const page = screenshot.url ? markdownLink(screenshot.title || screenshot.url, screenshot.url) : (screenshot.title || 'page');
+  return `${image}\n*Screenshot of ${page}, ${time}*\n`;
+};
@@ -0,0 +1,189 @@
+import type { Memo } from '../types';
+import { parseFrontMatter } from './frontMatter';
+
+type Field = 'title' | 'meta' | 'body';
+
+const FIELD_WEIGHTS: Record<Field, number> = {
+  title: 3,
+  meta: 2,
+  body: 1,
+};
+
+// Prefix hits (`sear` -> `search`) count for less than whole-word hits
+const PREFIX_FACTOR = 0.5;
+
+const SNIPPET_BEFORE = 40;
+const SNIPPET_AFTER = 100;
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  memo: Memo;
+  score: number;
+  snippet: SnippetSegment[];
+  // Offset of the first match in memo.content, or null when only the title matched
+  matchFrom: number | null;
+  matchTo: number | null;
+}
+
+export interface SearchIndex {
+  add: (memo: Memo) => void;
+  remove: (id: string) => void;
+  search: (query: string, limit?: number) => SearchResult[];
+  size: () => number;
+}
+
+const WORD_REGEX = /[\p{L}\p{N}_]+/gu;
+const CJK_REGEX = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/gu;
+
+// Words are split on non-letters; CJK runs have no spaces, so they are indexed as bigrams.
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const [word] of text.toLowerCase().matchAll(WORD_REGEX)) {
+    let rest = word;
+    for (const [run] of word.matchAll(CJK_REGEX)) {
+      if (run.length === 1) {
+        tokens.push(run);
+      } else {
+        for (let i = 0; i < run.length - 1; i++) {
+          tokens.push(run.slice(i, i + 2));
+        }
+      }
+      rest = rest.replace(run, ' ');
+    }
+    for (const part of rest.split(' ')) {
+      if (part) tokens.push(part);
+    }
+  }
+  return tokens;
+};
+
+const splitFields = (memo: Memo): Record<Field, string> & { bodyOffset: number } => {
+  const { entries, body, bodyOffset } = parseFrontMatter(memo.content);
+  const meta = entries
+    .map(({ key, value }) => `${key} ${Array.isArray(value) ? value.join(' ') : value}`)
+    .join('\n');
+  return { title: memo.title, meta, body, bodyOffset };
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const buildSnippet = (memo: Memo, queryTerms: string[]) => {
+  const { body, bodyOffset } = splitFields(memo);
+  const pattern = new RegExp(queryTerms.map(escapeRegExp).join('|'), 'gi');
+
+  const first = pattern.exec(body);
+  pattern.lastIndex = 0;
+  const start = first ? Math.max(0, first.index - SNIPPET_BEFORE) : 0;
+  const end = Math.min(body.length, (first ? first.index : 0) + SNIPPET_AFTER);
+  const excerpt = body.slice(start, end).replace(/\s+/g, ' ');
+
+  const snippet: SnippetSegment[] = [];
+  if (start > 0) snippet.push({ text: '…', highlight: false });
+  let cursor = 0;
+  for (const match of excerpt.matchAll(pattern)) {
+    if (match.index > cursor) snippet.push({ text: excerpt.slice(cursor, match.index), highlight: false });
+    snippet.push({ text: match[0], highlight: true });
+    cursor = match.index + match[0].length;
+  }
+  if (cursor < excerpt.length) snippet.push({ text: excerpt.slice(cursor), highlight: false });
+  if (end < body.length) snippet.push({ text: '…', highlight: false });
+
+  return {
+    snippet,
+    matchFrom: first ? bodyOffset + first.index : null,
+    matchTo: first ? bodyOffset + first.index + first[0].length : null,
+  };
+};
+
+// Inverted index kept in memory and updated one note at a time.
+export const createSearchIndex = (memos: Memo[] = []): SearchIndex => {
+  const docs = new Map<string, Memo>();
+  // term -> note id -> weighted term frequency
+  const postings = new Map<string, Map<string, number>>();
+  const docTerms = new Map<string, Set<string>>();
+
+  const remove = (id: string) => {
+    const terms = docTerms.get(id);
+    if (terms) {
+      for (const term of terms) {
+        const posting = postings.get(term);
+        posting?.delete(id);
+        if (posting && posting.size === 0) postings.delete(term);
+      }
+    }
+    docTerms.delete(id);
+    docs.delete(id);
+  };
+
+  const add = (memo: Memo) => {
+    remove(memo.id);
+    docs.set(memo.id, memo);
+
+    const weights = new Map<string, number>();
+    const fields = splitFields(memo);
+    (Object.keys(FIELD_WEIGHTS) as Field[]).forEach(field => {
+      for (const token of tokenize(fields[field])) {
+        weights.set(token, (weights.get(token) || 0) + FIELD_WEIGHTS[field]);
+      }
+    });
+
+    for (const [term, weight] of weights) {
+      let posting = postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        postings.set(term, posting);
+      }
+      posting.set(memo.id, weight);
+    }
+    docTerms.set(memo.id, new Set(weights.keys()));
+  };
+
+  const scoreTerm = (queryTerm: string): Map<string, number> => {
+    const scores = new Map<string, number>();
+    for (const [term, posting] of postings) {
+      if (!term.startsWith(queryTerm)) continue;
+      const idf = Math.log(1 + docs.size / posting.size);
+      const factor = term === queryTerm ? 1 : PREFIX_FACTOR;
+      for (const [id, weight] of posting) {
+        scores.set(id, (scores.get(id) || 0) + (1 + Math.log(weight)) * idf * factor);
+      }
+    }
+    return scores;
+  };
+
+  const search = (query: string, limit = 50): SearchResult[] => {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) return [];
+
+    // Every query term has to match (AND), scores add up
+    let totals: Map<string, number> | null = null;
+    for (const queryTerm of queryTerms) {
+      const termScores = scoreTerm(queryTerm);
+      if (totals === null) {
+        totals = termScores;
+      } else {
+        const next = new Map<string, number>();
+        for (const [id, score] of totals) {
+          const termScore = termScores.get(id);
+          if (termScore !== undefined) next.set(id, score + termScore);
+        }
+        totals = next;
+      }
+      if (totals.size === 0) return [];
+    }
+
+    return [...(totals || new Map<string, number>())]
+      .map(([id, score]) => ({ memo: docs.get(id)!, score }))
+      .sort((a, b) => b.score - a.score || b.memo.updatedAt - a.memo.updatedAt)
+      .slice(0, limit)
+      .map(({ memo, score }) => ({ memo, score, ...buildSnippet(memo, queryTerms) }));
+  };
+
+  memos.forEach(add);
+
+  return { add, remove, search, size: () => docs.size };
+};
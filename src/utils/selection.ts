@@ -0,0 +1,54 @@
+import type { CapturedSelection, PageMessage } from '../types';
+
+// Helpers for quoting text selected on a page into a note
+
+// Long selections are linked by their first and last words, which keeps the
+// URL short and still matches when the text in between changes slightly
+const FRAGMENT_EDGE_WORDS = 4;
+const MAX_EXACT_FRAGMENT_WORDS = 8;
+
+// Text fragments reserve `-`, `,` and `&` on top of the usual URL escaping
+const encodeFragmentText = (text: string) => encodeURIComponent(text).replace(/-/g, '%2D');
+
+// Deep link that scrolls to and highlights the passage (`#:~:text=`)
+export const textFragmentUrl = (pageUrl: string, text: string): string => {
+  const words = text.trim().split(/\s+/).filter(word => word !== '');
+  if (words.length === 0) return pageUrl;
+
+  const directive = words.length <= MAX_EXACT_FRAGMENT_WORDS
+    ? encodeFragmentText(words.join(' '))
+    : `${encodeFragmentText(words.slice(0, FRAGMENT_EDGE_WORDS).join(' '))},${encodeFragmentText(words.slice(-FRAGMENT_EDGE_WORDS).join(' '))}`;
+
+  // Replace a fragment directive the page URL may already carry
+  const hashIndex = pageUrl.indexOf('#');
+  const base = hashIndex === -1 ? pageUrl : pageUrl.slice(0, hashIndex);
+  const fragment = hashIndex === -1 ? '' : pageUrl.slice(hashIndex + 1).split(':~:')[0];
+  return `${base}#${fragment}:~:text=${directive}`;
+};
+
+// `[label](url)` that holds up with brackets in the label and parentheses in the URL
+export const markdownLink = (label: string, url: string): string => {
+  return `[${label.replace(/[[\]]/g, '\\$&')}](${url.replace(/\(/g, '%28').replace(/\)/g, '%29')})`;
+};
+
+// Markdown blockquote of the selection followed by a link back to it
+export const formatSelectionQuote = (text: string, pageUrl: string, pageTitle?: string): string => {
+  const lines = text.trim().split(/\r?\n/).map(line => (line.trim() ? `> ${line.trim()}` : '>'));
+  return `${lines.join('\n')}\n>\n> — ${markdownLink(pageTitle || 'Source', textFragmentUrl(pageUrl, text))}\n`;
+};
+
+// Adds a block at the end of the note, separated by a blank line
+export const appendBlock = (content: string, block: string): string => {
+  const trimmed = content.replace(/\s+$/, '');
+  return trimmed ? `${trimmed}\n\n${block}` : block;
+};
+
+// Text selected in the page and its anchor, or null where the content
+// script can't run (browser pages, the Web Store, PDFs)
+export const captureSelection = async (tabId: number): Promise<CapturedSelection | null> => {
+  try {
+    return await chrome.tabs.sendMessage<PageMessage, CapturedSelection | null>(tabId, { type: 'CAPTURE_SELECTION' }, { frameId: 0 });
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,198 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Memo, MemoIndex } from '../types';
+import { fakeChrome } from '../test/fakeChrome';
+
+// Re-imported for every test: the module remembers that it has migrated
+let storage: typeof import('./storage');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const makeMemo = (overrides: Partial<Memo> = {}): Memo => ({
+  id: 'memo-1',
+  title: 'A note',
+  content: '---\ntags: [reading]\n---\nHello',
+  domain: 'example.com',
+  url: 'https://example.com/',
+  isUrlSpecific: false,
+  tags: ['reading'],
+  createdAt: 1000,
+  updatedAt: 1000,
+  ...overrides,
+});
+
+const local = () => fakeChrome().storage.local;
+const storedIndex = () => (local().items.get('memoIndex') || {}) as MemoIndex;
+
+beforeEach(async () => {
+  vi.resetModules();
+  storage = await import('./storage');
+});
+
+describe('legacy migration', () => {
+  it('moves the single `memos` object into per-note records', async () => {
+    const withoutTags: Partial<Memo> = makeMemo({ id: 'a' });
+    delete withoutTags.tags;
+    await local().set({ memos: { a: withoutTags, b: makeMemo({ id: 'b', content: 'Plain' }) } });
+
+    const memos = await storage.getAllMemos();
+
+    expect(memos.map((memo) => memo.id).sort()).toEqual(['a', 'b']);
+    expect(local().items.has('memos')).toBe(false);
+    expect(Object.keys(storedIndex()).sort()).toEqual(['a', 'b']);
+    // Tags come from the front matter for notes saved before they existed
+    expect((local().items.get('memo:a') as Memo).tags).toEqual(['reading']);
+  });
+
+  it('keeps a per-note copy that is newer than the legacy one', async () => {
+    const newer = makeMemo({ id: 'a', title: 'Newer', updatedAt: 2000 });
+    await local().set({
+      memos: { a: makeMemo({ id: 'a', title: 'Older', updatedAt: 1000 }) },
+      'memo:a': newer,
+      memoIndex: { a: { id: 'a', domain: newer.domain, url: newer.url, isUrlSpecific: false, tags: [], updatedAt: 2000 } },
+    });
+
+    expect((await storage.getMemo('a'))?.title).toBe('Newer');
+    expect(local().items.has('memos')).toBe(false);
+  });
+
+  it('does nothing without legacy data', async () => {
+    expect(await storage.getAllMemos()).toEqual([]);
+    expect(local().items.size).toBe(0);
+  });
+});
+
+describe('saveMemo', () => {
+  it('writes the note, its index entry and a revision', async () => {
+    await storage.saveMemo(makeMemo());
+
+    const saved = await storage.getMemo('memo-1');
+    expect(saved?.content).toBe(makeMemo().content);
+    expect(saved?.deviceId).toEqual(expect.any(String));
+    expect(storedIndex()['memo-1']).toMatchObject({ domain: 'example.com', tags: ['reading'], updatedAt: 1000 });
+    expect(local().items.get('history:memo-1')).toHaveLength(1);
+  });
+
+  it('keeps the incoming device when asked to', async () => {
+    await storage.saveMemo(makeMemo({ deviceId: 'other-device' }), { preserveDevice: true });
+    expect((await storage.getMemo('memo-1'))?.deviceId).toBe('other-device');
+  });
+
+  it('reports the change to subscribers', async () => {
+    const listener = vi.fn();
+    const unsubscribe = storage.subscribeToMemoChanges(listener);
+    await storage.saveMemo(makeMemo());
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledWith([expect.objectContaining({ id: 'memo-1' })], []);
+  });
+});
+
+describe('saveMemos', () => {
+  it('writes every note and the index in a single storage call', async () => {
+    await storage.getAllMemos(); // Migration and device ID out of the way
+    const set = vi.spyOn(local(), 'set');
+
+    await storage.saveMemos([makeMemo({ id: 'a' }), makeMemo({ id: 'b' })]);
+
+    const batch = set.mock.calls.find(([items]) => 'memoIndex' in items);
+    expect(batch && Object.keys(batch[0]).sort()).toEqual(['memo:a', 'memo:b', 'memoIndex']);
+    expect(set.mock.calls.filter(([items]) => 'memoIndex' in items)).toHaveLength(1);
+    expect((await storage.getAllMemos()).map((memo) => memo.id).sort()).toEqual(['a', 'b']);
+  });
+
+  it('leaves storage unchanged when the write fails', async () => {
+    await storage.saveMemo(makeMemo({ id: 'a' }));
+    vi.spyOn(local(), 'set').mockRejectedValueOnce(new Error('QUOTA_BYTES quota exceeded'));
+
+    await expect(storage.saveMemos([makeMemo({ id: 'a', title: 'Changed' }), makeMemo({ id: 'b' })])).rejects.toThrow();
+
+    expect((await storage.getAllMemos()).map((memo) => memo.title)).toEqual(['A note']);
+  });
+});
+
+describe('trash', () => {
+  it('hides trashed notes from the lists until they are restored', async () => {
+    await storage.saveMemo(makeMemo());
+
+    await storage.trashMemo('memo-1');
+    expect(await storage.getAllMemos()).toEqual([]);
+    expect((await storage.getTrashedMemos()).map((memo) => memo.id)).toEqual(['memo-1']);
+    expect(await storage.getMemoIndex(true)).toHaveLength(1);
+
+    await storage.restoreMemo('memo-1');
+    expect(await storage.getTrashedMemos()).toEqual([]);
+    const restored = await storage.getMemo('memo-1');
+    expect(restored).not.toHaveProperty('deletedAt');
+    // Counts as a change, so it wins over older edits when syncing
+    expect(restored!.updatedAt).toBeGreaterThan(1000);
+  });
+
+  it('purges only notes older than the retention window', async () => {
+    const now = Date.now();
+    await storage.saveMemo(makeMemo({ id: 'old' }));
+    await storage.saveMemo(makeMemo({ id: 'recent' }));
+    await storage.saveMemo(makeMemo({ id: 'kept' }));
+    await storage.trashMemo('old');
+    await storage.trashMemo('recent');
+    await local().set({ memoIndex: { ...storedIndex(), old: { ...storedIndex().old, deletedAt: now - 31 * DAY } } });
+
+    expect(await storage.purgeExpiredTrash(now)).toBe(1);
+    expect((await storage.getMemoIndex(true)).map((entry) => entry.id).sort()).toEqual(['kept', 'recent']);
+    expect(local().items.has('memo:old')).toBe(false);
+  });
+
+  it('uses the configured retention', async () => {
+    const now = Date.now();
+    await local().set({ [storage.TRASH_RETENTION_KEY]: 1 });
+    await storage.saveMemo(makeMemo());
+    await storage.trashMemo('memo-1');
+
+    expect(await storage.purgeExpiredTrash(now + DAY / 2)).toBe(0);
+    expect(await storage.purgeExpiredTrash(now + 2 * DAY)).toBe(1);
+  });
+});
+
+describe('scheduleTrashPurge', () => {
+  it('creates a daily alarm once', async () => {
+    const { alarms } = fakeChrome();
+
+    await storage.scheduleTrashPurge();
+    await storage.scheduleTrashPurge();
+
+    expect(alarms.create).toHaveBeenCalledTimes(1);
+    expect(alarms.alarms.get(storage.TRASH_PURGE_ALARM)?.periodInMinutes).toBe(24 * 60);
+  });
+});
+
+describe('deleteMemo', () => {
+  it('removes the note, its index entry and its history', async () => {
+    await storage.saveMemo(makeMemo());
+    await storage.deleteMemo('memo-1');
+
+    expect(local().items.has('memo:memo-1')).toBe(false);
+    expect(storedIndex()).toEqual({});
+    expect(local().items.has('history:memo-1')).toBe(false);
+    expect(await storage.getMemo('memo-1')).toBeNull();
+  });
+
+  it('does not leave an unlisted note behind when the index write fails', async () => {
+    await storage.saveMemo(makeMemo());
+    vi.spyOn(local(), 'set').mockRejectedValueOnce(new Error('write failed'));
+
+    await expect(storage.deleteMemo('memo-1')).rejects.toThrow('write failed');
+
+    expect(local().items.has('memo:memo-1')).toBe(false);
+    // The leftover index entry points at nothing and is skipped
+    expect(await storage.getAllMemos()).toEqual([]);
+  });
+
+  it('reports the removal to subscribers', async () => {
+    await storage.saveMemo(makeMemo());
+    const listener = vi.fn();
+    const unsubscribe = storage.subscribeToMemoChanges(listener);
+    await storage.deleteMemo('memo-1');
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledWith([], ['memo-1']);
+  });
+});
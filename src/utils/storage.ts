@@ -1,64 +1,275 @@
-import type { Memo, MemoStore } from '../types';
+import type { Memo, MemoIndex, MemoIndexEntry, MemoStore } from '../types';
+import { getScopeSettings, isVisibleOnPage, matchesPage } from './scope';
+import { getTags } from './frontMatter';
+import { isExtension, storageArea, withStorageLock } from './storageArea';
+import { appendRevision, deleteHistory } from './history';
+import { getDeviceId } from './device';
 
-const isExtension = typeof chrome !== 'undefined' && chrome.storage && chrome.storage.local;
+// Each note lives under its own key; `memoIndex` holds the metadata used to
+// pick notes for a view, so listing never has to load every note's content.
+const MEMO_KEY_PREFIX = 'memo:';
+export const MEMO_INDEX_KEY = 'memoIndex';
+const LEGACY_KEY = 'memos';
 
-const getLocalStore = (): MemoStore => {
-  try {
-    const raw = localStorage.getItem('memos');
-    return raw ? JSON.parse(raw) : {};
-  } catch {
-    return {};
-  }
+export const TRASH_RETENTION_KEY = 'trashRetentionDays';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_PURGE_ALARM = 'trash-purge';
+
+export const memoKey = (id: string) => `${MEMO_KEY_PREFIX}${id}`;
+
+export const isMemoKey = (key: string) => key.startsWith(MEMO_KEY_PREFIX);
+
+export const idFromMemoKey = (key: string) => key.slice(MEMO_KEY_PREFIX.length);
+
+// Notes saved before tags existed get them from their front matter
+const normalizeMemo = (memo: Memo): Memo => {
+  return Array.isArray(memo.tags) ? memo : { ...memo, tags: getTags(memo.content) };
 };
 
-const setLocalStore = (memos: MemoStore) => {
-  localStorage.setItem('memos', JSON.stringify(memos));
+const toIndexEntry = (memo: Memo): MemoIndexEntry => ({
+  id: memo.id,
+  domain: memo.domain,
+  url: memo.url,
+  isUrlSpecific: memo.isUrlSpecific,
+  tags: memo.tags,
+  updatedAt: memo.updatedAt,
+  deletedAt: memo.deletedAt,
+  remindAt: memo.remindAt,
+});
+
+const readIndex = async (): Promise<MemoIndex> => {
+  const result = await storageArea.get([MEMO_INDEX_KEY]);
+  return (result[MEMO_INDEX_KEY] || {}) as MemoIndex;
 };
 
-export const saveMemo = async (memo: Memo): Promise<void> => {
-  if (isExtension) {
-    const result = await chrome.storage.local.get('memos');
-    const memos = (result.memos || {}) as MemoStore;
-    memos[memo.id] = memo;
-    await chrome.storage.local.set({ memos });
-  } else {
-    const memos = getLocalStore();
-    memos[memo.id] = memo;
-    setLocalStore(memos);
+// Moves the single `memos` object used by older versions into per-note records
+const migrateLegacyStore = () => withStorageLock(async () => {
+  const result = await storageArea.get([LEGACY_KEY, MEMO_INDEX_KEY]);
+  const legacy = result[LEGACY_KEY] as MemoStore | undefined;
+  if (!legacy) return;
+
+  const index = (result[MEMO_INDEX_KEY] || {}) as MemoIndex;
+  const records: Record<string, unknown> = {};
+  Object.values(legacy).forEach((raw) => {
+    const memo = normalizeMemo(raw);
+    // Keep a newer per-note copy if one was written in the meantime
+    if (index[memo.id] && index[memo.id].updatedAt >= memo.updatedAt) return;
+    records[memoKey(memo.id)] = memo;
+    index[memo.id] = toIndexEntry(memo);
+  });
+
+  await storageArea.set({ ...records, [MEMO_INDEX_KEY]: index });
+  await storageArea.remove([LEGACY_KEY]);
+});
+
+let migration: Promise<void> | null = null;
+
+const ensureMigrated = () => {
+  if (!migration) {
+    migration = migrateLegacyStore().catch((err) => {
+      migration = null;
+      throw err;
+    });
   }
+  return migration;
 };
 
-export const getMemosByDomain = async (domain: string): Promise<Memo[]> => {
-  let memos: MemoStore;
-  if (isExtension) {
-    const result = await chrome.storage.local.get('memos');
-    memos = (result.memos || {}) as MemoStore;
-  } else {
-    memos = getLocalStore();
+const readMemos = async (ids: string[]): Promise<Memo[]> => {
+  if (ids.length === 0) return [];
+  const result = await storageArea.get(ids.map(memoKey));
+  return ids
+    .map((id) => result[memoKey(id)] as Memo | undefined)
+    .filter((memo): memo is Memo => !!memo)
+    .map(normalizeMemo);
+};
+
+const byUpdatedAt = (a: { updatedAt: number }, b: { updatedAt: number }) => b.updatedAt - a.updatedAt;
+
+type MemoChangeListener = (changed: Memo[], removedIds: string[]) => void;
+
+// Outside the extension there is no storage.onChanged, so writes notify directly
+const localListeners = new Set<MemoChangeListener>();
+
+const notifyLocalListeners = (changed: Memo[], removedIds: string[]) => {
+  if (isExtension) return;
+  localListeners.forEach(listener => listener(changed, removedIds));
+};
+
+const writeMemo = (memo: Memo) => withStorageLock(async () => {
+  const index = await readIndex();
+  index[memo.id] = toIndexEntry(memo);
+  await storageArea.set({ [memoKey(memo.id)]: memo, [MEMO_INDEX_KEY]: index });
+});
+
+interface SaveOptions {
+  // Keep the incoming deviceId instead of stamping this device, e.g. for synced copies
+  preserveDevice?: boolean;
+}
+
+export const saveMemo = async (memo: Memo, options: SaveOptions = {}): Promise<void> => {
+  await ensureMigrated();
+  const deviceId = options.preserveDevice && memo.deviceId ? memo.deviceId : await getDeviceId();
+  const normalized = normalizeMemo({ ...memo, deviceId });
+  await writeMemo(normalized);
+  await appendRevision(normalized);
+  notifyLocalListeners([normalized], []);
+};
+
+// Writes many notes in one storage call, so either all of them land or none
+// do. Used by imports; history is recorded afterwards.
+export const saveMemos = async (memos: Memo[]): Promise<void> => {
+  if (memos.length === 0) return;
+  await ensureMigrated();
+  const deviceId = await getDeviceId();
+  const normalized = memos.map((memo) => normalizeMemo({ ...memo, deviceId }));
+  await withStorageLock(async () => {
+    const index = await readIndex();
+    const records: Record<string, unknown> = {};
+    normalized.forEach((memo) => {
+      records[memoKey(memo.id)] = memo;
+      index[memo.id] = toIndexEntry(memo);
+    });
+    await storageArea.set({ ...records, [MEMO_INDEX_KEY]: index });
+  });
+  for (const memo of normalized) {
+    await appendRevision(memo);
   }
-  return Object.values(memos).filter((memo) => memo.domain === domain).sort((a, b) => b.updatedAt - a.updatedAt);
+  notifyLocalListeners(normalized, []);
+};
+
+export const getMemo = async (id: string): Promise<Memo | null> => {
+  await ensureMigrated();
+  const [memo] = await readMemos([id]);
+  return memo || null;
+};
+
+// Index entries of every note that is not in the trash
+export const getMemoIndex = async (includeTrashed = false): Promise<MemoIndexEntry[]> => {
+  await ensureMigrated();
+  return Object.values(await readIndex()).filter((entry) => includeTrashed || !entry.deletedAt);
+};
+
+export const getMemosByDomain = async (domain: string, url: string | null = null): Promise<Memo[]> => {
+  const [entries, scopeSettings] = await Promise.all([getMemoIndex(), getScopeSettings()]);
+  const ids = entries.filter((entry) => isVisibleOnPage(entry, domain, url, scopeSettings)).map((entry) => entry.id);
+  return (await readMemos(ids)).sort(byUpdatedAt);
+};
+
+export const getMemosByUrl = async (url: string): Promise<Memo[]> => {
+  const [entries, scopeSettings] = await Promise.all([getMemoIndex(), getScopeSettings()]);
+  const ids = entries.filter((entry) => matchesPage(entry, url, scopeSettings)).map((entry) => entry.id);
+  return (await readMemos(ids)).sort(byUpdatedAt);
+};
+
+export const getMemosByTag = async (tag: string): Promise<Memo[]> => {
+  const entries = await getMemoIndex();
+  const wanted = tag.toLowerCase();
+  const ids = entries.filter((entry) => entry.tags.some((t) => t.toLowerCase() === wanted)).map((entry) => entry.id);
+  return (await readMemos(ids)).sort(byUpdatedAt);
+};
+
+// Soonest reminder first, overdue ones included
+export const getMemosWithReminders = async (): Promise<Memo[]> => {
+  const entries = await getMemoIndex();
+  const ids = entries.filter((entry) => entry.remindAt !== undefined).map((entry) => entry.id);
+  return (await readMemos(ids)).sort((a, b) => (a.remindAt || 0) - (b.remindAt || 0));
 };
 
 export const getAllMemos = async (): Promise<Memo[]> => {
-  let memos: MemoStore;
-  if (isExtension) {
-    const result = await chrome.storage.local.get('memos');
-    memos = (result.memos || {}) as MemoStore;
-  } else {
-    memos = getLocalStore();
+  const entries = await getMemoIndex();
+  return readMemos(entries.map((entry) => entry.id));
+};
+
+// Moving in or out of the trash counts as a change, so it wins over older edits when syncing
+const setDeletedAt = async (id: string, deletedAt: number | undefined): Promise<Memo | null> => {
+  await ensureMigrated();
+  const [stored] = await readMemos([id]);
+  if (!stored) return null;
+  const updated: Memo = { ...stored, deletedAt, updatedAt: Date.now(), deviceId: await getDeviceId() };
+  if (deletedAt === undefined) delete updated.deletedAt;
+  await writeMemo(updated);
+  notifyLocalListeners([updated], []);
+  return updated;
+};
+
+// Soft delete: the note stays recoverable until the trash is purged
+export const trashMemo = async (id: string): Promise<void> => {
+  await setDeletedAt(id, Date.now());
+};
+
+export const restoreMemo = async (id: string): Promise<void> => {
+  await setDeletedAt(id, undefined);
+};
+
+export const getTrashedMemos = async (): Promise<Memo[]> => {
+  await ensureMigrated();
+  const ids = Object.values(await readIndex()).filter((entry) => entry.deletedAt).map((entry) => entry.id);
+  const memos = await readMemos(ids);
+  return memos.sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0));
+};
+
+export const getTrashRetentionDays = async (): Promise<number> => {
+  const result = await storageArea.get([TRASH_RETENTION_KEY]);
+  const days = result[TRASH_RETENTION_KEY];
+  return typeof days === 'number' && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+// Permanently deletes notes that have been in the trash longer than the retention window
+export const purgeExpiredTrash = async (now: number = Date.now()): Promise<number> => {
+  await ensureMigrated();
+  const days = await getTrashRetentionDays();
+  const cutoff = now - days * 24 * 60 * 60 * 1000;
+  const expired = Object.values(await readIndex()).filter((entry) => entry.deletedAt && entry.deletedAt < cutoff);
+  for (const entry of expired) {
+    await deleteMemo(entry.id);
   }
-  return Object.values(memos);
+  return expired.length;
+};
+
+// Daily, since a browser that is never restarted would otherwise keep expired notes
+export const scheduleTrashPurge = async (): Promise<void> => {
+  const alarm = await chrome.alarms.get(TRASH_PURGE_ALARM);
+  if (!alarm) await chrome.alarms.create(TRASH_PURGE_ALARM, { delayInMinutes: 1, periodInMinutes: 24 * 60 });
 };
 
+// Permanent delete, including the note's history
 export const deleteMemo = async (id: string): Promise<void> => {
-  if (isExtension) {
-    const result = await chrome.storage.local.get('memos');
-    const memos = (result.memos || {}) as MemoStore;
-    delete memos[id];
-    await chrome.storage.local.set({ memos });
-  } else {
-    const memos = getLocalStore();
-    delete memos[id];
-    setLocalStore(memos);
+  await ensureMigrated();
+  await withStorageLock(async () => {
+    // Record first: if the index write fails, the leftover entry points at
+    // nothing and is skipped, instead of the note living on unlisted
+    await storageArea.remove([memoKey(id)]);
+    const index = await readIndex();
+    delete index[id];
+    await storageArea.set({ [MEMO_INDEX_KEY]: index });
+  });
+  await deleteHistory(id);
+  notifyLocalListeners([], [id]);
+};
+
+// Reports which notes were written or removed, from any extension page.
+export const subscribeToMemoChanges = (listener: MemoChangeListener): (() => void) => {
+  if (!isExtension) {
+    localListeners.add(listener);
+    return () => localListeners.delete(listener);
   }
+
+  const handleStorageChange = (changes: { [key: string]: chrome.storage.StorageChange }, area: string) => {
+    if (area !== 'local') return;
+    const changed: Memo[] = [];
+    const removedIds: string[] = [];
+    Object.entries(changes).forEach(([key, change]) => {
+      if (!isMemoKey(key)) return;
+      if (change.newValue) {
+        changed.push(normalizeMemo(change.newValue as Memo));
+      } else {
+        removedIds.push(idFromMemoKey(key));
+      }
+    });
+    if (changed.length > 0 || removedIds.length > 0) {
+      listener(changed, removedIds);
+    }
+  };
+  chrome.storage.onChanged.addListener(handleStorageChange);
+  return () => chrome.storage.onChanged.removeListener(handleStorageChange);
 };
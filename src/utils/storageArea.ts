@@ -0,0 +1,57 @@
+// Minimal key-value interface over chrome.storage.local, with a localStorage
+// fallback so the panel also runs as a plain page during development.
+export interface StorageArea {
+  get: (keys: string[]) => Promise<Record<string, unknown>>;
+  set: (items: Record<string, unknown>) => Promise<void>;
+  remove: (keys: string[]) => Promise<void>;
+}
+
+export const isExtension = typeof chrome !== 'undefined' && !!chrome.storage && !!chrome.storage.local;
+
+const chromeArea: StorageArea = {
+  get: (keys) => chrome.storage.local.get(keys),
+  set: (items) => chrome.storage.local.set(items),
+  remove: (keys) => chrome.storage.local.remove(keys),
+};
+
+const localStorageArea: StorageArea = {
+  get: async (keys) => {
+    const result: Record<string, unknown> = {};
+    keys.forEach((key) => {
+      const raw = localStorage.getItem(key);
+      if (raw === null) return;
+      try {
+        result[key] = JSON.parse(raw);
+      } catch {
+        // Skip unreadable entries
+      }
+    });
+    return result;
+  },
+  set: async (items) => {
+    Object.entries(items).forEach(([key, value]) => localStorage.setItem(key, JSON.stringify(value)));
+  },
+  remove: async (keys) => {
+    keys.forEach((key) => localStorage.removeItem(key));
+  },
+};
+
+export const storageArea: StorageArea = isExtension ? chromeArea : localStorageArea;
+
+const LOCK_NAME = 'website-notes-storage';
+let localQueue: Promise<unknown> = Promise.resolve();
+
+// Serializes read-modify-write cycles. Web Locks are shared by every page of
+// the extension (panel, options, service worker), so writes from different
+// contexts can't interleave either.
+export const withStorageLock = <T>(task: () => Promise<T>): Promise<T> => {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return new Promise<T>((resolve, reject) => {
+      // The lock is held until the returned promise settles
+      navigator.locks.request(LOCK_NAME, () => task().then(resolve, reject)).catch(reject);
+    });
+  }
+  const run = localQueue.then(task, task);
+  localQueue = run.catch(() => undefined);
+  return run;
+};
@@ -0,0 +1,246 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Memo } from '../types';
+import { fakeChrome } from '../test/fakeChrome';
+
+// Re-imported for every test: both modules keep state between calls
+let storage: typeof import('./storage');
+let sync: typeof import('./sync');
+
+const API = 'https://api.example.com/notes';
+
+// A REST backend as described in syncProviders, keeping notes in memory and
+// bumping the ETag on every write. Some servers don't send it back on upload.
+const createRestServer = ({ etagOnPut = true } = {}) => {
+  const notes = new Map<string, { body: string; etag: string }>();
+  let writes = 0;
+
+  const write = (id: string, body: string) => {
+    const etag = `"${++writes}"`;
+    notes.set(id, { body, etag });
+    return etag;
+  };
+
+  const handle = async (input: string | URL | Request, init: RequestInit = {}): Promise<Response> => {
+    const url = String(input);
+    const method = init.method || 'GET';
+    if (url === API) {
+      return Response.json([...notes].map(([id, note]) => ({ id, version: note.etag })));
+    }
+    const id = decodeURIComponent(url.slice(API.length + 1));
+    const note = notes.get(id);
+    if (method === 'PUT') {
+      const etag = write(id, String(init.body));
+      return new Response(null, { status: 204, headers: etagOnPut ? { ETag: etag } : {} });
+    }
+    if (!note) return new Response(null, { status: 404 });
+    if (method === 'DELETE') {
+      notes.delete(id);
+      return new Response(null, { status: 204 });
+    }
+    return new Response(note.body, { headers: { ETag: note.etag } });
+  };
+
+  return {
+    fetch: vi.fn(handle),
+    // An edit made by another device
+    put: (memo: Memo, deviceName: string) => write(memo.id, JSON.stringify({ ...memo, deviceName })),
+    read: (id: string) => {
+      const note = notes.get(id);
+      return note && (JSON.parse(note.body) as Memo & { deviceName?: string });
+    },
+    ids: () => [...notes.keys()],
+    remove: (id: string) => notes.delete(id),
+  };
+};
+
+let server: ReturnType<typeof createRestServer>;
+
+const makeMemo = (overrides: Partial<Memo> = {}): Memo => ({
+  id: 'memo-1',
+  title: 'Shopping',
+  content: 'Milk',
+  domain: 'example.com',
+  url: 'https://example.com/',
+  isUrlSpecific: false,
+  tags: [],
+  createdAt: 1000,
+  updatedAt: 1000,
+  ...overrides,
+});
+
+beforeEach(async () => {
+  vi.resetModules();
+  storage = await import('./storage');
+  sync = await import('./sync');
+  server = createRestServer();
+  vi.stubGlobal('fetch', server.fetch);
+  vi.stubGlobal('navigator', { onLine: true });
+  await fakeChrome().storage.local.set({ deviceName: 'Laptop' });
+  await sync.saveSyncSettings({ ...sync.DEFAULT_SYNC_SETTINGS, backend: 'rest', rest: { url: 'https://api.example.com', token: 'secret' } });
+});
+
+// Saves the note and syncs it, so both sides agree on it
+const syncedMemo = async (overrides: Partial<Memo> = {}) => {
+  await storage.saveMemo(makeMemo(overrides));
+  await sync.syncAll();
+  return (await storage.getMemo(overrides.id || 'memo-1'))!;
+};
+
+describe('sync with a REST backend', () => {
+  it('uploads new notes and downloads notes from other devices', async () => {
+    await storage.saveMemo(makeMemo({ id: 'local' }));
+    server.put(makeMemo({ id: 'remote', deviceId: 'phone' }), 'Phone');
+
+    await sync.syncAll();
+
+    expect(server.read('local')).toMatchObject({ content: 'Milk', deviceName: 'Laptop' });
+    expect(await storage.getMemo('remote')).toMatchObject({ content: 'Milk', deviceId: 'phone' });
+    expect(await sync.getSyncStatus()).toMatchObject({ state: 'idle', conflicts: 0 });
+  });
+
+  it('only uploads notes whose version changed', async () => {
+    const memo = await syncedMemo();
+    server.fetch.mockClear();
+
+    await sync.syncAll();
+    expect(server.fetch.mock.calls.map(([, init]) => init?.method || 'GET')).toEqual(['GET']);
+
+    await storage.saveMemo({ ...memo, content: 'Milk, eggs', updatedAt: 2000 });
+    await sync.syncAll();
+    expect(server.read('memo-1')?.content).toBe('Milk, eggs');
+  });
+
+  it('takes remote edits when the note did not change here', async () => {
+    const memo = await syncedMemo();
+    server.put({ ...memo, content: 'Milk, bread', updatedAt: 2000, deviceId: 'phone' }, 'Phone');
+
+    await sync.syncAll();
+
+    expect((await storage.getMemo('memo-1'))?.content).toBe('Milk, bread');
+    expect(await storage.getAllMemos()).toHaveLength(1);
+  });
+
+  it('keeps the older side of a conflict as a copy when the remote edit is newer', async () => {
+    const memo = await syncedMemo();
+    await storage.saveMemo({ ...memo, content: 'Milk, eggs', updatedAt: 2000 });
+    server.put({ ...memo, content: 'Milk, bread', updatedAt: 3000, deviceId: 'phone' }, 'Phone');
+
+    await sync.syncAll();
+
+    const memos = await storage.getAllMemos();
+    expect((await storage.getMemo('memo-1'))?.content).toBe('Milk, bread');
+    const copy = memos.find((m) => m.id !== 'memo-1');
+    expect(copy).toMatchObject({ content: 'Milk, eggs' });
+    expect(copy?.title).toMatch(/^Shopping \(conflict from Laptop, /);
+    // The copy reaches the other devices too
+    expect(server.read(copy!.id)?.content).toBe('Milk, eggs');
+    expect(await sync.getSyncStatus()).toMatchObject({ state: 'idle', conflicts: 1 });
+  });
+
+  it('uploads the local side of a conflict when it is newer', async () => {
+    const memo = await syncedMemo();
+    server.put({ ...memo, content: 'Milk, bread', updatedAt: 2000, deviceId: 'phone' }, 'Phone');
+    await storage.saveMemo({ ...memo, content: 'Milk, eggs', updatedAt: 3000 });
+
+    await sync.syncAll();
+
+    expect(server.read('memo-1')?.content).toBe('Milk, eggs');
+    const copy = (await storage.getAllMemos()).find((m) => m.id !== 'memo-1');
+    expect(copy?.content).toBe('Milk, bread');
+    expect(copy?.title).toMatch(/^Shopping \(conflict from Phone, /);
+  });
+
+  it('does not copy a conflict when both sides made the same edit', async () => {
+    const memo = await syncedMemo();
+    await storage.saveMemo({ ...memo, content: 'Milk, eggs', updatedAt: 2000 });
+    server.put({ ...memo, content: 'Milk, eggs', updatedAt: 3000, deviceId: 'phone' }, 'Phone');
+
+    await sync.syncAll();
+
+    expect(await storage.getAllMemos()).toHaveLength(1);
+    expect(await sync.getSyncStatus()).toMatchObject({ conflicts: 0 });
+  });
+
+  it('follows deletes from other devices unless the note changed here', async () => {
+    await syncedMemo({ id: 'unchanged' });
+    const edited = await syncedMemo({ id: 'edited' });
+    await storage.saveMemo({ ...edited, content: 'Milk, eggs', updatedAt: 2000 });
+    server.remove('unchanged');
+    server.remove('edited');
+
+    await sync.syncAll();
+
+    expect(await storage.getMemo('unchanged')).toBeNull();
+    expect(server.read('edited')?.content).toBe('Milk, eggs');
+  });
+
+  it('compares the note itself when the server sent no ETag for an upload', async () => {
+    server = createRestServer({ etagOnPut: false });
+    vi.stubGlobal('fetch', server.fetch);
+    await syncedMemo();
+
+    // The listed ETag is new to us, so the note is downloaded once to compare
+    server.fetch.mockClear();
+    await sync.syncAll();
+    expect(server.fetch.mock.calls.map(([url]) => String(url))).toEqual([API, `${API}/memo-1`]);
+    expect(await storage.getAllMemos()).toHaveLength(1);
+
+    // and from then on the ETag is known
+    server.fetch.mockClear();
+    await sync.syncAll();
+    expect(server.fetch.mock.calls.map(([url]) => String(url))).toEqual([API]);
+  });
+
+  it('keeps local changes queued while the server is down', async () => {
+    const memo = await syncedMemo();
+    await storage.saveMemo({ ...memo, content: 'Milk, eggs', updatedAt: 2000 });
+    server.fetch.mockResolvedValueOnce(new Response(null, { status: 503 }));
+
+    await sync.syncAll();
+
+    expect(await sync.getSyncStatus()).toMatchObject({ state: 'offline', error: 'api.example.com is unavailable (503)' });
+    expect(server.read('memo-1')?.content).toBe('Milk');
+
+    await sync.syncAll();
+    expect(server.read('memo-1')?.content).toBe('Milk, eggs');
+    expect(await sync.getSyncStatus()).toMatchObject({ state: 'idle' });
+  });
+
+  it('keeps syncing the other notes when one cannot be uploaded', async () => {
+    await storage.saveMemo(makeMemo({ id: 'small' }));
+    await storage.saveMemo(makeMemo({ id: 'large', content: 'Milk'.repeat(1000) }));
+    await storage.saveMemo(makeMemo({ id: 'other' }));
+    const handle = server.fetch.getMockImplementation()!;
+    server.fetch.mockImplementation(async (input, init) => {
+      if (init?.method === 'PUT' && String(input).endsWith('/large')) {
+        return new Response(null, { status: 413, statusText: 'Payload Too Large' });
+      }
+      return handle(input, init);
+    });
+
+    await sync.syncAll();
+
+    expect(server.ids().sort()).toEqual(['other', 'small']);
+    expect(await sync.getSyncStatus()).toMatchObject({
+      state: 'idle',
+      skipped: 1,
+      error: 'Uploading a note failed (413 Payload Too Large)',
+    });
+    // The note stays here and queued until the server takes it
+    expect(await storage.getMemo('large')).not.toBeNull();
+    expect((await chrome.storage.local.get('syncQueue')).syncQueue).toEqual(['large']);
+
+    server.fetch.mockImplementation(handle);
+    await sync.syncAll();
+    expect(server.read('large')?.content).toBe('Milk'.repeat(1000));
+    expect(await sync.getSyncStatus()).not.toHaveProperty('skipped');
+  });
+
+  it('reports rejected credentials as an error', async () => {
+    server.fetch.mockResolvedValueOnce(new Response(null, { status: 401 }));
+
+    await sync.syncAll();
+
+    expect(await sync.getSyncStatus()).toMatchObject({ state: 'error', error: 'api.example.com rejected the credentials (401)' });
+  });
+});
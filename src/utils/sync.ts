@@ -0,0 +1,337 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Memo, SyncSettings, SyncStatus } from '../types';
+import { deleteMemo, getMemo, getMemoIndex, saveMemo } from './storage';
+import { getDeviceId, getDeviceName } from './device';
+import { createSyncProvider, isOfflineError, type RemoteNote, type SyncProvider } from './syncProviders';
+
+// Optional mirror of the local notes on a sync backend (chrome.storage.sync,
+// WebDAV or a REST server). Local storage stays the source of truth; sync
+// only copies changes in and out of it.
+
+export const SYNC_SETTINGS_KEY = 'syncSettings';
+export const SYNC_STATUS_KEY = 'syncStatus';
+// Per backend: the version of every note as both sides last agreed on it
+const SYNC_STATE_PREFIX = 'syncState:';
+// Notes changed locally that haven't reached the backend yet
+const SYNC_QUEUE_KEY = 'syncQueue';
+// Before backends were configurable, browser sync was a single switch
+const LEGACY_SYNC_ENABLED_KEY = 'syncEnabled';
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  backend: 'off',
+  webdav: { url: '', username: '', password: '' },
+  rest: { url: '', token: '' },
+};
+
+const BACKENDS: SyncSettings['backend'][] = ['off', 'browser', 'webdav', 'rest'];
+
+const asString = (value: unknown) => (typeof value === 'string' ? value : '');
+
+const sanitizeSyncSettings = (value: unknown): SyncSettings => {
+  if (!value || typeof value !== 'object') return DEFAULT_SYNC_SETTINGS;
+  const raw = value as Partial<SyncSettings>;
+  const backend = BACKENDS.find(b => b === raw.backend) || DEFAULT_SYNC_SETTINGS.backend;
+  return {
+    backend,
+    webdav: {
+      url: asString(raw.webdav?.url).trim(),
+      username: asString(raw.webdav?.username),
+      password: asString(raw.webdav?.password),
+    },
+    rest: {
+      url: asString(raw.rest?.url).trim(),
+      token: asString(raw.rest?.token),
+    },
+  };
+};
+
+export const getSyncSettings = async (): Promise<SyncSettings> => {
+  if (typeof chrome === 'undefined' || !chrome.storage?.local) {
+    return DEFAULT_SYNC_SETTINGS;
+  }
+  const result = await chrome.storage.local.get([SYNC_SETTINGS_KEY, LEGACY_SYNC_ENABLED_KEY]);
+  if (!result[SYNC_SETTINGS_KEY] && result[LEGACY_SYNC_ENABLED_KEY] === true) {
+    return { ...DEFAULT_SYNC_SETTINGS, backend: 'browser' };
+  }
+  return sanitizeSyncSettings(result[SYNC_SETTINGS_KEY]);
+};
+
+// The background worker starts a full sync whenever these change
+export const saveSyncSettings = async (settings: SyncSettings): Promise<void> => {
+  const sanitized = sanitizeSyncSettings(settings);
+  await chrome.storage.local.set({
+    [SYNC_SETTINGS_KEY]: sanitized,
+    [SYNC_STATUS_KEY]: sanitized.backend === 'off' ? { state: 'off' } : { state: 'idle' },
+  });
+  await chrome.storage.local.remove([LEGACY_SYNC_ENABLED_KEY, SYNC_QUEUE_KEY]);
+};
+
+export const getSyncStatus = async (): Promise<SyncStatus> => {
+  const result = await chrome.storage.local.get(SYNC_STATUS_KEY);
+  return (result[SYNC_STATUS_KEY] as SyncStatus | undefined) || { state: 'off' };
+};
+
+const setSyncStatus = async (status: SyncStatus) => {
+  await chrome.storage.local.set({ [SYNC_STATUS_KEY]: status });
+};
+
+// Versions are `updatedAt:deviceId` on the local side and provider defined on the remote
+interface SyncVersion {
+  local: string;
+  remote: string | null;
+}
+
+type SyncVersions = Record<string, SyncVersion>;
+
+const localVersion = (memo: Pick<Memo, 'updatedAt' | 'deviceId'>) => `${memo.updatedAt}:${memo.deviceId || ''}`;
+
+const readVersions = async (provider: SyncProvider): Promise<SyncVersions> => {
+  const key = SYNC_STATE_PREFIX + provider.id;
+  const result = await chrome.storage.local.get(key);
+  return (result[key] || {}) as SyncVersions;
+};
+
+const writeVersions = async (provider: SyncProvider, versions: SyncVersions) => {
+  await chrome.storage.local.set({ [SYNC_STATE_PREFIX + provider.id]: versions });
+};
+
+const readQueue = async (): Promise<string[]> => {
+  const result = await chrome.storage.local.get(SYNC_QUEUE_KEY);
+  return (result[SYNC_QUEUE_KEY] || []) as string[];
+};
+
+let queueUpdate: Promise<void> = Promise.resolve();
+
+// Read-modify-write of the queue, one at a time so concurrent edits aren't lost
+const updateQueue = (update: (ids: string[]) => string[]): Promise<void> => {
+  queueUpdate = queueUpdate
+    .then(async () => {
+      const ids = update(await readQueue());
+      await chrome.storage.local.set({ [SYNC_QUEUE_KEY]: [...new Set(ids)] });
+    })
+    .catch((err) => console.error(err));
+  return queueUpdate;
+};
+
+// Later change wins; the device ID breaks ties so every device picks the same winner
+const isNewer = (a: Memo, b: Memo) => {
+  return a.updatedAt !== b.updatedAt ? a.updatedAt > b.updatedAt : (a.deviceId || '') > (b.deviceId || '');
+};
+
+interface SyncContext {
+  provider: SyncProvider;
+  remoteVersions: Map<string, string>;
+  versions: SyncVersions;
+  deviceId: string;
+  deviceName: string;
+}
+
+const push = async (ctx: SyncContext, memo: Memo) => {
+  const version = await ctx.provider.put(memo, ctx.deviceName);
+  ctx.versions[memo.id] = { local: localVersion(memo), remote: version };
+};
+
+const pull = async (ctx: SyncContext, memo: Memo, version: string) => {
+  await saveMemo(memo, { preserveDevice: true });
+  ctx.versions[memo.id] = { local: localVersion(memo), remote: version };
+};
+
+// Keeps the losing side of a conflict as a separate note instead of dropping it
+const saveConflictCopy = async (ctx: SyncContext, loser: Memo, deviceName: string) => {
+  const copy: Memo = {
+    ...loser,
+    id: uuidv4(),
+    title: `${loser.title || 'Untitled'} (conflict from ${deviceName}, ${new Date(loser.updatedAt).toLocaleString()})`,
+    deviceId: ctx.deviceId,
+  };
+  await saveMemo(copy, { preserveDevice: true });
+  await push(ctx, copy);
+};
+
+// Three-way merge of one note against the version both sides agreed on last
+// time. Returns the number of conflicting copies created.
+const reconcile = async (ctx: SyncContext, id: string): Promise<number> => {
+  const local = await getMemo(id);
+  const remoteVersion = ctx.remoteVersions.get(id) ?? null;
+  const base = ctx.versions[id];
+  const localChanged = !local || !base || localVersion(local) !== base.local;
+  let remoteChanged = !base || remoteVersion !== base.remote;
+
+  let fetched: RemoteNote | null | undefined;
+  const fetchRemote = async () => {
+    if (fetched === undefined) fetched = await ctx.provider.get(id);
+    return fetched;
+  };
+
+  if (base && base.remote === null && remoteVersion !== null) {
+    // The server didn't report a version for our last upload; compare the note itself
+    const remote = await fetchRemote();
+    remoteChanged = !remote || localVersion(remote.memo) !== base.local;
+    if (!remoteChanged) base.remote = remoteVersion;
+  }
+
+  if (!local && remoteVersion === null) {
+    delete ctx.versions[id];
+    return 0;
+  }
+
+  if (remoteVersion === null) {
+    // Deleted on another device; follow unless the note changed here since
+    if (base && !localChanged) {
+      await deleteMemo(id);
+      delete ctx.versions[id];
+    } else {
+      await push(ctx, local!);
+    }
+    return 0;
+  }
+
+  if (!local) {
+    if (base && !remoteChanged) {
+      await ctx.provider.remove(id);
+      delete ctx.versions[id];
+    } else {
+      const remote = await fetchRemote();
+      if (remote) await pull(ctx, remote.memo, remote.version);
+    }
+    return 0;
+  }
+
+  if (!localChanged && !remoteChanged) return 0;
+  if (!remoteChanged) {
+    await push(ctx, local);
+    return 0;
+  }
+
+  const remote = await fetchRemote();
+  if (!remote) return 0;
+  if (localVersion(remote.memo) === localVersion(local)) {
+    // Same edit on both sides, e.g. our own upload or the first sync of a restored backup
+    ctx.versions[id] = { local: localVersion(local), remote: remote.version };
+    return 0;
+  }
+  if (!localChanged) {
+    await pull(ctx, remote.memo, remote.version);
+    return 0;
+  }
+
+  // Both sides changed since the last sync
+  const localWins = isNewer(local, remote.memo);
+  if (localWins) {
+    await push(ctx, local);
+  } else {
+    await pull(ctx, remote.memo, remote.version);
+  }
+
+  const loser = localWins ? remote.memo : local;
+  const winner = localWins ? local : remote.memo;
+  const sameText = winner.content === loser.content && winner.title === loser.title;
+  if (sameText || loser.deletedAt || winner.deletedAt) return 0;
+  await saveConflictCopy(ctx, loser, localWins ? remote.deviceName || 'another device' : ctx.deviceName);
+  return 1;
+};
+
+let running: Promise<unknown> = Promise.resolve();
+
+// Sync runs one pass at a time so a push and a pull of the same note never interleave
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = running.then(task, task);
+  running = run.catch(() => undefined);
+  return run;
+};
+
+const describeError = (err: unknown) => {
+  const message = err instanceof Error ? err.message : String(err);
+  if (/QUOTA_BYTES/.test(message)) return 'Sync storage is full. Large notes stay on this device only.';
+  if (/MAX_WRITE_OPERATIONS/.test(message)) return 'Too many changes in a short time. Sync will retry shortly.';
+  return message;
+};
+
+// Problems with the backend as a whole end the pass. Anything else, like a
+// note too large for the backend, only holds back that note.
+const stopsSync = (err: unknown) => {
+  return isOfflineError(err) || /MAX_WRITE_OPERATIONS/.test(err instanceof Error ? err.message : String(err));
+};
+
+const runSync = (full: boolean) => enqueue(async () => {
+  const provider = createSyncProvider(await getSyncSettings());
+  if (!provider) return;
+
+  const queue = await readQueue();
+  const previous = await getSyncStatus();
+  if (!navigator.onLine) {
+    await setSyncStatus({ ...previous, state: 'offline', pending: queue.length });
+    return;
+  }
+  await setSyncStatus({ ...previous, state: 'syncing' });
+
+  const ctx: SyncContext = {
+    provider,
+    remoteVersions: new Map(),
+    versions: await readVersions(provider),
+    deviceId: await getDeviceId(),
+    deviceName: await getDeviceName(),
+  };
+  const pending = new Set(queue);
+  let conflicts = 0;
+  try {
+    ctx.remoteVersions = await provider.list();
+    const ids = new Set(queue);
+    if (full) {
+      (await getMemoIndex(true)).forEach((entry) => ids.add(entry.id));
+      ctx.remoteVersions.forEach((_, id) => ids.add(id));
+      Object.keys(ctx.versions).forEach((id) => ids.add(id));
+    }
+    let skipped = 0;
+    let skipError: unknown;
+    for (const id of ids) {
+      try {
+        conflicts += await reconcile(ctx, id);
+        pending.delete(id);
+      } catch (err) {
+        if (stopsSync(err)) throw err;
+        // Stays on this device and in the queue, so later passes retry it
+        console.error(`Could not sync note ${id}`, err);
+        pending.add(id);
+        skipped++;
+        skipError ??= err;
+      }
+    }
+    await setSyncStatus(skipped > 0
+      ? { state: 'idle', lastSyncedAt: Date.now(), conflicts, skipped, error: describeError(skipError) }
+      : { state: 'idle', lastSyncedAt: Date.now(), conflicts });
+  } catch (err) {
+    console.error('Sync failed', err);
+    await setSyncStatus({
+      ...previous,
+      state: isOfflineError(err) ? 'offline' : 'error',
+      error: describeError(err),
+      pending: pending.size,
+    });
+  } finally {
+    await writeVersions(provider, ctx.versions);
+    // Keep what didn't get through, plus anything queued while this pass ran
+    await updateQueue((latest) => [...pending, ...latest.filter((id) => !queue.includes(id))]);
+  }
+});
+
+// Batches edits: storage.sync allows about two writes per second and HTTP
+// backends shouldn't see a request per keystroke either
+const SYNC_DELAY_MS = 2000;
+let pendingTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Queues notes that changed locally or remotely and syncs them shortly after
+export const syncMemos = async (ids: string[]): Promise<void> => {
+  const settings = await getSyncSettings();
+  if (settings.backend === 'off') return;
+
+  await updateQueue((queue) => [...queue, ...ids]);
+  if (pendingTimer) clearTimeout(pendingTimer);
+  pendingTimer = setTimeout(() => {
+    pendingTimer = null;
+    runSync(false).catch((err) => console.error(err));
+  }, SYNC_DELAY_MS);
+};
+
+// Compares every note on both sides and retries the offline queue
+export const syncAll = () => runSync(true);
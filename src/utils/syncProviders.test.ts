@@ -0,0 +1,245 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Memo, MemoAnchor } from '../types';
+import { fakeChrome } from '../test/fakeChrome';
+import { browserSyncProvider, createRestProvider, createWebDavProvider, isOfflineError, type SyncProvider } from './syncProviders';
+
+const QUOTA_BYTES_PER_ITEM = 8192;
+
+const makeMemo = (overrides: Partial<Memo> = {}): Memo => ({
+  id: 'memo-1',
+  title: 'A note',
+  content: 'Hello',
+  domain: 'example.com',
+  url: 'https://example.com/',
+  isUrlSpecific: false,
+  tags: [],
+  createdAt: 1000,
+  updatedAt: 2000,
+  deviceId: 'device-a',
+  ...overrides,
+});
+
+const makeAnchors = (count: number): MemoAnchor[] => Array.from({ length: count }, (_, i) => ({
+  id: `anchor-${i}`,
+  url: 'https://example.com/article',
+  quote: { exact: `quoted passage number ${i} `.repeat(4), prefix: 'x'.repeat(32), suffix: 'y'.repeat(32) },
+  position: { start: i * 100, end: i * 100 + 90 },
+  createdAt: 1000 + i,
+}));
+
+const syncItems = () => fakeChrome().storage.sync.items;
+
+// What chrome.storage.sync counts against the per-item quota
+const itemBytes = (key: string, value: unknown) => new TextEncoder().encode(key + JSON.stringify(value)).length;
+
+describe('browserSyncProvider', () => {
+  it('round-trips a note with its anchors', async () => {
+    const memo = makeMemo({ anchors: makeAnchors(2) });
+    const version = await browserSyncProvider.put(memo, 'Laptop');
+
+    const remote = await browserSyncProvider.get(memo.id);
+
+    expect(remote).toEqual({ memo, version, deviceName: 'Laptop' });
+    expect(await browserSyncProvider.list()).toEqual(new Map([[memo.id, version]]));
+  });
+
+  it('keeps every item under the per-item quota, however many anchors a note has', async () => {
+    const memo = makeMemo({ content: 'é'.repeat(20000), anchors: makeAnchors(200) });
+    await browserSyncProvider.put(memo, 'Laptop');
+
+    syncItems().forEach((value, key) => {
+      expect(itemBytes(key, value)).toBeLessThanOrEqual(QUOTA_BYTES_PER_ITEM);
+    });
+    expect((await browserSyncProvider.get(memo.id))?.memo).toEqual(memo);
+  });
+
+  it('removes chunks left over from a longer version', async () => {
+    await browserSyncProvider.put(makeMemo({ content: 'a'.repeat(30000), anchors: makeAnchors(200) }), 'Laptop');
+    const short = makeMemo({ content: 'short', updatedAt: 3000 });
+    await browserSyncProvider.put(short, 'Laptop');
+
+    expect([...syncItems().keys()].sort()).toEqual(['note:memo-1', 'note:memo-1:0']);
+    expect((await browserSyncProvider.get(short.id))?.memo).toEqual(short);
+  });
+
+  it('reads anchors stored in the metadata by older versions', async () => {
+    const { content, ...rest } = makeMemo({ anchors: makeAnchors(1) });
+    await fakeChrome().storage.sync.set({ 'note:memo-1': { ...rest, chunks: 1 }, 'note:memo-1:0': content });
+
+    expect((await browserSyncProvider.get('memo-1'))?.memo.anchors).toEqual(makeAnchors(1));
+  });
+
+  it('waits for chunks that have not arrived yet', async () => {
+    await browserSyncProvider.put(makeMemo({ anchors: makeAnchors(1) }), 'Laptop');
+    await fakeChrome().storage.sync.remove('note:memo-1:a0');
+
+    expect(await browserSyncProvider.get('memo-1')).toBeNull();
+  });
+
+  it('removes every item of a note', async () => {
+    await browserSyncProvider.put(makeMemo({ content: 'a'.repeat(30000), anchors: makeAnchors(200) }), 'Laptop');
+    await browserSyncProvider.remove('memo-1');
+
+    expect(syncItems().size).toBe(0);
+  });
+});
+
+// --- HTTP backends ---------------------------------------------------------
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+const respond = (status: number, body: BodyInit | null = null, headers: Record<string, string> = {}, statusText = '') => {
+  fetchMock.mockResolvedValueOnce(new Response(body, { status, headers, statusText }));
+};
+
+const requestAt = (call: number) => {
+  const [url, init = {}] = fetchMock.mock.calls[call];
+  return { url: String(url), method: init.method || 'GET', headers: (init.headers || {}) as Record<string, string>, body: init.body };
+};
+
+const webdav = () => createWebDavProvider({ url: 'https://dav.example.com/notes', username: 'ann', password: 'pässword' });
+const rest = () => createRestProvider({ url: 'https://api.example.com/v1/', token: 'secret' });
+
+const MULTISTATUS = `<?xml version="1.0"?>
+<d:multistatus xmlns:d="DAV:">
+  <d:response><d:href>/notes/</d:href><d:propstat><d:prop><d:getetag>"folder"</d:getetag></d:prop></d:propstat></d:response>
+  <d:response><d:href>/notes/memo-1.json</d:href><d:propstat><d:prop><d:getetag>&quot;abc&quot;</d:getetag></d:prop></d:propstat></d:response>
+  <D:response><D:href>/notes/memo%202.json</D:href><D:propstat><D:prop><D:getlastmodified>Tue, 01 Jul 2025 10:00:00 GMT</D:getlastmodified></D:prop></D:propstat></D:response>
+  <d:response><d:href>/notes/readme.txt</d:href></d:response>
+</d:multistatus>`;
+
+describe('createWebDavProvider', () => {
+  it('lists the ETag of every note file in the folder', async () => {
+    respond(207, MULTISTATUS);
+
+    const versions = await webdav().list();
+
+    expect(versions).toEqual(new Map([['memo-1', '"abc"'], ['memo 2', 'Tue, 01 Jul 2025 10:00:00 GMT']]));
+    const { url, method, headers } = requestAt(0);
+    expect([url, method, headers.Depth]).toEqual(['https://dav.example.com/notes/', 'PROPFIND', '1']);
+    expect(headers.Authorization).toBe(`Basic ${Buffer.from('ann:pässword').toString('base64')}`);
+  });
+
+  it('creates the folder on the first sync', async () => {
+    respond(404);
+    respond(201);
+
+    expect(await webdav().list()).toEqual(new Map());
+    expect(requestAt(1).method).toBe('MKCOL');
+  });
+
+  it('downloads a note with its ETag as the version', async () => {
+    const memo = makeMemo();
+    respond(200, JSON.stringify({ ...memo, deviceName: 'Phone' }), { ETag: '"v2"' });
+
+    expect(await webdav().get('memo-1')).toEqual({ memo, version: '"v2"', deviceName: 'Phone' });
+    expect(requestAt(0).url).toBe('https://dav.example.com/notes/memo-1.json');
+  });
+
+  it('falls back to Last-Modified, then to the note itself, for the version', async () => {
+    const memo = makeMemo();
+    respond(200, JSON.stringify(memo), { 'Last-Modified': 'Tue, 01 Jul 2025 10:00:00 GMT' });
+    respond(200, JSON.stringify(memo));
+
+    expect((await webdav().get('memo-1'))?.version).toBe('Tue, 01 Jul 2025 10:00:00 GMT');
+    expect((await webdav().get('memo-1'))?.version).toBe('2000:device-a');
+  });
+
+  it('treats a missing note as deleted', async () => {
+    respond(404);
+    respond(404);
+
+    expect(await webdav().get('memo-1')).toBeNull();
+    await expect(webdav().remove('memo-1')).resolves.toBeUndefined();
+  });
+
+  it('uploads the note and returns the new ETag', async () => {
+    const memo = makeMemo();
+    respond(201, null, { ETag: '"v3"' });
+    respond(204);
+
+    expect(await webdav().put(memo, 'Laptop')).toBe('"v3"');
+    // Servers that don't report one leave the comparison to the next sync
+    expect(await webdav().put(memo, 'Laptop')).toBeNull();
+    const { method, headers, body } = requestAt(0);
+    expect(method).toBe('PUT');
+    expect(headers['Content-Type']).toBe('application/json');
+    expect(JSON.parse(String(body))).toEqual({ ...memo, deviceName: 'Laptop' });
+  });
+});
+
+describe('createRestProvider', () => {
+  it('lists note versions as strings', async () => {
+    respond(200, JSON.stringify([{ id: 'memo-1', version: '"abc"' }, { id: 'memo-2', version: 7 }]));
+
+    expect(await rest().list()).toEqual(new Map([['memo-1', '"abc"'], ['memo-2', '7']]));
+    const { url, headers } = requestAt(0);
+    expect(url).toBe('https://api.example.com/v1/notes');
+    expect(headers.Authorization).toBe('Bearer secret');
+  });
+
+  it('downloads a note with its ETag as the version', async () => {
+    const memo = makeMemo({ id: 'a/b' });
+    respond(200, JSON.stringify(memo), { ETag: 'W/"5"' });
+
+    expect(await rest().get('a/b')).toEqual({ memo, version: 'W/"5"', deviceName: undefined });
+    expect(requestAt(0).url).toBe('https://api.example.com/v1/notes/a%2Fb');
+  });
+
+  it('uses the note itself as the version without an ETag', async () => {
+    respond(200, JSON.stringify(makeMemo()));
+
+    expect((await rest().get('memo-1'))?.version).toBe('2000:device-a');
+  });
+
+  it('uploads, removes, and treats missing notes as deleted', async () => {
+    respond(200, null, { ETag: '"6"' });
+    respond(404);
+    respond(404);
+
+    expect(await rest().put(makeMemo(), 'Laptop')).toBe('"6"');
+    expect(await rest().get('memo-1')).toBeNull();
+    await expect(rest().remove('memo-1')).resolves.toBeUndefined();
+    expect(requestAt(2).method).toBe('DELETE');
+  });
+});
+
+describe.each<[string, () => SyncProvider]>([['WebDAV', webdav], ['REST', rest]])('%s errors', (_name, provider) => {
+  it('reports an unreachable server as offline', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    const error = await provider().get('memo-1').catch((err: unknown) => err);
+
+    expect(isOfflineError(error)).toBe(true);
+    expect((error as Error).message).toMatch(/^Cannot reach (dav|api)\.example\.com$/);
+  });
+
+  it('reports server errors as offline, so they are retried', async () => {
+    respond(503);
+
+    const error = await provider().put(makeMemo(), 'Laptop').catch((err: unknown) => err);
+
+    expect(isOfflineError(error)).toBe(true);
+    expect((error as Error).message).toMatch(/is unavailable \(503\)$/);
+  });
+
+  it.each([401, 403])('reports rejected credentials (%i) as an error', async (status) => {
+    respond(status);
+
+    const error = await provider().list().catch((err: unknown) => err);
+
+    expect(isOfflineError(error)).toBe(false);
+    expect((error as Error).message).toMatch(new RegExp(`rejected the credentials \\(${status}\\)$`));
+  });
+
+  it('reports other failures with the status', async () => {
+    respond(412, null, {}, 'Precondition Failed');
+
+    await expect(provider().put(makeMemo(), 'Laptop')).rejects.toThrow('Uploading a note failed (412 Precondition Failed)');
+  });
+});
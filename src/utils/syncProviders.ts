@@ -0,0 +1,327 @@
+import type { Memo, MemoAnchor, SyncSettings } from '../types';
+
+// A place notes are synced to. Versions are opaque strings that change
+// whenever the stored note changes (an ETag, a timestamp, ...).
+export interface RemoteNote {
+  memo: Memo;
+  version: string;
+  deviceName?: string; // Name of the device that wrote it, for conflict copies
+}
+
+export interface SyncProvider {
+  // Identifies the remote, so switching servers starts from a clean slate
+  id: string;
+  list: () => Promise<Map<string, string>>; // note ID -> version
+  get: (id: string) => Promise<RemoteNote | null>;
+  // Returns the new version, or null when the server doesn't report one
+  put: (memo: Memo, deviceName: string) => Promise<string | null>;
+  remove: (id: string) => Promise<void>;
+}
+
+// Failures that go away by themselves once the network is back
+export const offlineError = (message: string) => Object.assign(new Error(message), { offline: true });
+
+export const isOfflineError = (err: unknown) => err instanceof Error && (err as { offline?: boolean }).offline === true;
+
+type StoredNote = Memo & { deviceName?: string };
+
+const toRemoteNote = ({ deviceName, ...memo }: StoredNote, version: string): RemoteNote => ({ memo, version, deviceName });
+
+// --- chrome.storage.sync ---------------------------------------------------
+//
+// `note:<id>` holds the metadata and the number of chunks, `note:<id>:<n>`
+// the content chunks and `note:<id>:a<n>` the highlight anchors as chunked
+// JSON, because a single item may not exceed QUOTA_BYTES_PER_ITEM.
+
+const NOTE_PREFIX = 'note:';
+// Leaves room for the key and JSON overhead within the 8 KB per-item quota
+const CHUNK_BYTES = 7000;
+
+type SyncedMeta = Omit<StoredNote, 'content' | 'anchors'> & {
+  chunks: number;
+  anchorChunks?: number;
+  anchors?: MemoAnchor[]; // Kept in the metadata item by older versions
+};
+
+const metaKey = (id: string) => `${NOTE_PREFIX}${id}`;
+const chunkKey = (id: string, index: number) => `${NOTE_PREFIX}${id}:${index}`;
+const anchorChunkKey = (id: string, index: number) => `${NOTE_PREFIX}${id}:a${index}`;
+
+export const isSyncMetaKey = (key: string) => key.startsWith(NOTE_PREFIX) && key.split(':').length === 2;
+
+export const idFromSyncKey = (key: string) => key.split(':')[1];
+
+const metaVersion = (meta: Pick<Memo, 'updatedAt' | 'deviceId'>) => `${meta.updatedAt}:${meta.deviceId || ''}`;
+
+const encoder = new TextEncoder();
+
+const byteLength = (char: string) => {
+  const code = char.codePointAt(0)!;
+  // Printable ASCII other than `"` and `\` is stored as-is in JSON
+  if (code >= 0x20 && code < 0x7f && char !== '"' && char !== '\\') return 1;
+  return encoder.encode(JSON.stringify(char)).length - 2;
+};
+
+// Splits text into pieces whose JSON encoding stays under CHUNK_BYTES
+export const chunkText = (text: string, maxBytes: number = CHUNK_BYTES): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of text) {
+    const charSize = byteLength(char);
+    if (size + charSize > maxBytes && current !== '') {
+      chunks.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  if (current !== '' || chunks.length === 0) chunks.push(current);
+  return chunks;
+};
+
+const readChunkCounts = async (id: string) => {
+  const result = await chrome.storage.sync.get(metaKey(id));
+  const meta = result[metaKey(id)] as SyncedMeta | undefined;
+  return { chunks: meta?.chunks || 0, anchorChunks: meta?.anchorChunks || 0 };
+};
+
+const chunkKeys = (id: string, from: number, to: number, key = chunkKey) => {
+  return Array.from({ length: Math.max(0, to - from) }, (_, i) => key(id, from + i));
+};
+
+export const browserSyncProvider: SyncProvider = {
+  id: 'browser',
+
+  list: async () => {
+    const items = await chrome.storage.sync.get(null);
+    const versions = new Map<string, string>();
+    Object.entries(items).forEach(([key, value]) => {
+      if (isSyncMetaKey(key)) versions.set(idFromSyncKey(key), metaVersion(value as SyncedMeta));
+    });
+    return versions;
+  },
+
+  get: async (id) => {
+    const metaResult = await chrome.storage.sync.get(metaKey(id));
+    const meta = metaResult[metaKey(id)] as SyncedMeta | undefined;
+    if (!meta) return null;
+
+    const keys = chunkKeys(id, 0, meta.chunks);
+    const anchorKeys = chunkKeys(id, 0, meta.anchorChunks || 0, anchorChunkKey);
+    const allKeys = [...keys, ...anchorKeys];
+    const chunkResult = allKeys.length > 0 ? await chrome.storage.sync.get(allKeys) : {};
+    // A missing chunk means the write is still arriving; the next change event retries
+    if (allKeys.some((key) => typeof chunkResult[key] !== 'string')) return null;
+
+    const { chunks, anchorChunks, ...rest } = meta;
+    const join = (parts: string[]) => parts.map((key) => chunkResult[key] as string).join('');
+    const note: StoredNote = { ...rest, content: join(keys.slice(0, chunks)) };
+    if (anchorChunks) note.anchors = JSON.parse(join(anchorKeys.slice(0, anchorChunks))) as MemoAnchor[];
+    return toRemoteNote(note, metaVersion(meta));
+  },
+
+  put: async (memo, deviceName) => {
+    const previous = await readChunkCounts(memo.id);
+    const { content, anchors, ...rest } = memo;
+    const chunks = chunkText(content);
+    const anchorChunks = anchors?.length ? chunkText(JSON.stringify(anchors)) : [];
+    const meta: SyncedMeta = { ...rest, deviceName, chunks: chunks.length, anchorChunks: anchorChunks.length };
+
+    const items: Record<string, unknown> = { [metaKey(memo.id)]: meta };
+    chunks.forEach((chunk, i) => {
+      items[chunkKey(memo.id, i)] = chunk;
+    });
+    anchorChunks.forEach((chunk, i) => {
+      items[anchorChunkKey(memo.id, i)] = chunk;
+    });
+    // One set call, so other devices never see a half-written note
+    await chrome.storage.sync.set(items);
+
+    const stale = [
+      ...chunkKeys(memo.id, chunks.length, previous.chunks),
+      ...chunkKeys(memo.id, anchorChunks.length, previous.anchorChunks, anchorChunkKey),
+    ];
+    if (stale.length > 0) await chrome.storage.sync.remove(stale);
+    return metaVersion(meta);
+  },
+
+  remove: async (id) => {
+    const { chunks, anchorChunks } = await readChunkCounts(id);
+    await chrome.storage.sync.remove([metaKey(id), ...chunkKeys(id, 0, chunks), ...chunkKeys(id, 0, anchorChunks, anchorChunkKey)]);
+  },
+};
+
+// --- HTTP backends ---------------------------------------------------------
+
+const withTrailingSlash = (url: string) => (url.endsWith('/') ? url : `${url}/`);
+
+const basicAuth = (username: string, password: string) => {
+  const bytes = encoder.encode(`${username}:${password}`);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+};
+
+const request = async (url: string, init: RequestInit): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, cache: 'no-store' });
+  } catch {
+    // fetch only rejects when the server can't be reached at all
+    throw offlineError(`Cannot reach ${new URL(url).host}`);
+  }
+  if (response.status === 401 || response.status === 403) {
+    throw new Error(`${new URL(url).host} rejected the credentials (${response.status})`);
+  }
+  if (response.status >= 500) {
+    throw offlineError(`${new URL(url).host} is unavailable (${response.status})`);
+  }
+  return response;
+};
+
+const expectOk = (response: Response, action: string) => {
+  if (!response.ok) throw new Error(`${action} failed (${response.status} ${response.statusText})`);
+};
+
+const responseVersion = (response: Response) => response.headers.get('ETag') || response.headers.get('Last-Modified');
+
+const readNote = async (response: Response, fallbackVersion: string | null): Promise<RemoteNote> => {
+  const stored = (await response.json()) as StoredNote;
+  return toRemoteNote(stored, fallbackVersion || metaVersion(stored));
+};
+
+// --- WebDAV ----------------------------------------------------------------
+//
+// Every note is a `<id>.json` file in the configured folder. PROPFIND
+// returns each file's ETag, so a full sync only downloads changed notes.
+
+const NOTE_FILE = /\/([^/]+)\.json$/;
+
+// Service workers have no DOMParser, and the multistatus format is simple
+// enough to pick apart with patterns that ignore the namespace prefix.
+const parseMultistatus = (xml: string): Map<string, string> => {
+  const versions = new Map<string, string>();
+  const responses = xml.split(/<(?:[\w-]+:)?response[\s>]/i).slice(1);
+  responses.forEach((part) => {
+    const href = part.match(/<(?:[\w-]+:)?href[^>]*>([^<]*)</i)?.[1];
+    const file = href && decodeURIComponent(href.trim()).match(NOTE_FILE);
+    if (!file) return;
+    const etag = part.match(/<(?:[\w-]+:)?getetag[^>]*>([^<]*)</i)?.[1];
+    const modified = part.match(/<(?:[\w-]+:)?getlastmodified[^>]*>([^<]*)</i)?.[1];
+    const version = (etag || modified || '').trim().replace(/&quot;/g, '"');
+    versions.set(file[1], version);
+  });
+  return versions;
+};
+
+const PROPFIND_BODY = '<?xml version="1.0" encoding="utf-8"?><d:propfind xmlns:d="DAV:"><d:prop><d:getetag/><d:getlastmodified/></d:prop></d:propfind>';
+
+export const createWebDavProvider = (settings: SyncSettings['webdav']): SyncProvider => {
+  const folder = withTrailingSlash(settings.url.trim());
+  const headers: Record<string, string> = settings.username
+    ? { Authorization: basicAuth(settings.username, settings.password) }
+    : {};
+  const fileUrl = (id: string) => `${folder}${encodeURIComponent(id)}.json`;
+
+  return {
+    id: `webdav:${folder}`,
+
+    list: async () => {
+      const response = await request(folder, {
+        method: 'PROPFIND',
+        headers: { ...headers, Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' },
+        body: PROPFIND_BODY,
+      });
+      if (response.status === 404) {
+        // First sync: create the folder
+        const created = await request(folder, { method: 'MKCOL', headers });
+        expectOk(created, 'Creating the WebDAV folder');
+        return new Map();
+      }
+      expectOk(response, 'Listing the WebDAV folder');
+      return parseMultistatus(await response.text());
+    },
+
+    get: async (id) => {
+      const response = await request(fileUrl(id), { headers });
+      if (response.status === 404) return null;
+      expectOk(response, 'Downloading a note');
+      return readNote(response, responseVersion(response));
+    },
+
+    put: async (memo, deviceName) => {
+      const response = await request(fileUrl(memo.id), {
+        method: 'PUT',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...memo, deviceName }),
+      });
+      expectOk(response, 'Uploading a note');
+      return response.headers.get('ETag');
+    },
+
+    remove: async (id) => {
+      const response = await request(fileUrl(id), { method: 'DELETE', headers });
+      if (response.status !== 404) expectOk(response, 'Deleting a note');
+    },
+  };
+};
+
+// --- REST ------------------------------------------------------------------
+//
+// A minimal JSON API, easy to put in front of any storage:
+//   GET    <url>/notes       -> [{ "id": "...", "version": "..." }]
+//   GET    <url>/notes/<id>  -> the note (version in the ETag header)
+//   PUT    <url>/notes/<id>  <- the note; responds with the new ETag
+//   DELETE <url>/notes/<id>
+
+export const createRestProvider = (settings: SyncSettings['rest']): SyncProvider => {
+  const base = `${withTrailingSlash(settings.url.trim())}notes`;
+  const headers: Record<string, string> = settings.token ? { Authorization: `Bearer ${settings.token}` } : {};
+  const noteUrl = (id: string) => `${base}/${encodeURIComponent(id)}`;
+
+  return {
+    id: `rest:${base}`,
+
+    list: async () => {
+      const response = await request(base, { headers: { ...headers, Accept: 'application/json' } });
+      expectOk(response, 'Listing notes');
+      const entries = (await response.json()) as { id: string; version: string }[];
+      return new Map(entries.map((entry) => [entry.id, String(entry.version)]));
+    },
+
+    get: async (id) => {
+      const response = await request(noteUrl(id), { headers: { ...headers, Accept: 'application/json' } });
+      if (response.status === 404) return null;
+      expectOk(response, 'Downloading a note');
+      return readNote(response, response.headers.get('ETag'));
+    },
+
+    put: async (memo, deviceName) => {
+      const response = await request(noteUrl(memo.id), {
+        method: 'PUT',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...memo, deviceName }),
+      });
+      expectOk(response, 'Uploading a note');
+      return response.headers.get('ETag');
+    },
+
+    remove: async (id) => {
+      const response = await request(noteUrl(id), { method: 'DELETE', headers });
+      if (response.status !== 404) expectOk(response, 'Deleting a note');
+    },
+  };
+};
+
+export const createSyncProvider = (settings: SyncSettings): SyncProvider | null => {
+  switch (settings.backend) {
+    case 'browser':
+      return browserSyncProvider;
+    case 'webdav':
+      return settings.webdav.url ? createWebDavProvider(settings.webdav) : null;
+    case 'rest':
+      return settings.rest.url ? createRestProvider(settings.rest) : null;
+    default:
+      return null;
+  }
+};
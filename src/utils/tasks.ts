@@ -0,0 +1,56 @@
+import { marked, type Token, type Tokens } from 'marked';
+import { parseFrontMatter } from './frontMatter';
+
+// `- [ ] item` task list items. They're found with marked's own lexer, so
+// the nth task here is the nth checkbox in the preview.
+export interface Task {
+  index: number; // Position among the note's tasks, checked ones included
+  text: string; // First line of the item, without the checkbox
+  checked: boolean;
+  offset: number; // Of the `[ ]` in the note's content, -1 when it couldn't be found
+}
+
+const CHECKBOX_REGEX = /\[[ xX]\]/;
+
+export const getTasks = (content: string): Task[] => {
+  const { body, bodyOffset } = parseFrontMatter(content);
+  const tasks: Task[] = [];
+  let position = 0;
+  let cursor = 0;
+
+  // Top-level tokens follow each other in the source, so each task is looked
+  // for in the token holding it, after the tasks before it
+  marked.lexer(body).forEach((token) => {
+    const start = body.startsWith(token.raw, position) ? position : body.indexOf(token.raw, position);
+    if (start !== -1) {
+      position = start + token.raw.length;
+      cursor = Math.max(cursor, start);
+    }
+    marked.walkTokens([token], (child: Token) => {
+      if (child.type !== 'list_item' || !(child as Tokens.ListItem).task) return;
+      const item = child as Tokens.ListItem;
+      const firstLine = item.raw.split('\n')[0];
+      const found = body.indexOf(firstLine, cursor);
+      const box = found === -1 ? -1 : firstLine.search(CHECKBOX_REGEX);
+      if (found !== -1) cursor = found + firstLine.length;
+      tasks.push({
+        index: tasks.length,
+        text: item.text.split('\n')[0].trim(),
+        checked: !!item.checked,
+        offset: box === -1 ? -1 : bodyOffset + found + box,
+      });
+    });
+  });
+
+  return tasks;
+};
+
+export const getOpenTasks = (content: string) => getTasks(content).filter((task) => !task.checked);
+
+// Flips the task's checkbox; the content stays as it is when it can't be found
+export const toggleTask = (content: string, index: number): string => {
+  const task = getTasks(content)[index];
+  if (!task || task.offset === -1) return content;
+  const box = task.checked ? '[ ]' : '[x]';
+  return `${content.slice(0, task.offset)}${box}${content.slice(task.offset + 3)}`;
+};
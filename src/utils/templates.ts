@@ -0,0 +1,165 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { NoteTemplate, TemplateSettings } from '../types';
+import { parseFrontMatter, serializeFrontMatter, type FrontMatterData } from './frontMatter';
+import { appendBlock } from './selection';
+import { storageArea } from './storageArea';
+
+export const TEMPLATE_SETTINGS_KEY = 'noteTemplates';
+
+export const DEFAULT_TEMPLATE_SETTINGS: TemplateSettings = {
+  templates: [],
+};
+
+// New notes as they were before templates, used where no template matches
+export const BUILTIN_TEMPLATE: NoteTemplate = {
+  id: 'builtin',
+  name: 'Blank note',
+  title: '',
+  body: '---\nURL: {{url}}\ntitle: {{title}}\ncreated_at: {{date}}\ntags: []\n---\n\n',
+  patterns: [],
+};
+
+export const createTemplate = (): NoteTemplate => ({
+  ...BUILTIN_TEMPLATE,
+  id: uuidv4(),
+  name: 'New template',
+});
+
+export interface TemplateVariables {
+  url: string;
+  title: string;
+  domain: string;
+  selection: string; // The quoted selection or typed text the note starts with
+  date: Date;
+}
+
+// `{{name}}` or `{{name:argument}}`
+const VARIABLE_REGEX = /\{\{\s*(\w+)\s*(?::([^}]*))?\}\}/g;
+const SELECTION_REGEX = /\{\{\s*selection\s*\}\}/;
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD HH:mm';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Supports YYYY, MM, DD, HH, mm and ss; everything else is kept as written
+export const formatTemplateDate = (date: Date, format: string): string => {
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => {
+    switch (token) {
+      case 'YYYY': return String(date.getFullYear());
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'DD': return pad(date.getDate());
+      case 'HH': return pad(date.getHours());
+      case 'mm': return pad(date.getMinutes());
+      default: return pad(date.getSeconds());
+    }
+  });
+};
+
+// Unknown variables are left in place so a typo shows up in the note
+export const expandVariables = (text: string, vars: TemplateVariables): string => {
+  return text.replace(VARIABLE_REGEX, (match, name: string, argument: string | undefined) => {
+    switch (name) {
+      case 'url':
+      case 'title':
+      case 'domain':
+      case 'selection':
+        return vars[name];
+      case 'date':
+        return formatTemplateDate(vars.date, argument?.trim() || DEFAULT_DATE_FORMAT);
+      default:
+        return match;
+    }
+  });
+};
+
+export const usesSelection = (template: NoteTemplate) => SELECTION_REGEX.test(template.body);
+
+// Front-matter values are filled in one by one and written out again, so a
+// page title with a colon or quotes can't break the front matter
+export const renderTemplate = (template: NoteTemplate, vars: TemplateVariables): string => {
+  const parsed = parseFrontMatter(template.body);
+  const expand = (text: string) => expandVariables(text, vars);
+  let content = expand(parsed.body);
+  if (parsed.hasFrontMatter) {
+    const data: FrontMatterData = {};
+    parsed.entries.forEach(({ key, value }) => {
+      data[key] = Array.isArray(value) ? value.map(expand).filter((item) => item.trim() !== '') : expand(value);
+    });
+    content = `${serializeFrontMatter(data)}${content}`;
+  }
+  // A template without a place for the selection still keeps it, at the end
+  if (vars.selection && !usesSelection(template)) {
+    content = appendBlock(content, vars.selection);
+  }
+  return content;
+};
+
+export const renderTemplateTitle = (template: NoteTemplate, vars: TemplateVariables): string => {
+  const title = expandVariables(template.title, vars).replace(/\s+/g, ' ').trim();
+  return title || (vars.title ? `Note: ${vars.title}` : 'New Note');
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const SCHEME_REGEX = /^[a-z][\w+.-]*:\/\//;
+
+// A bare host matches it and its subdomains. Anything with a `/` or `*` is
+// a URL prefix where `*` matches any text; without a scheme it starts at the host.
+export const matchesTemplatePattern = (pattern: string, url: string): boolean => {
+  const wanted = pattern.trim().toLowerCase();
+  if (!wanted) return false;
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (!/[/*]/.test(wanted)) {
+    const host = parsed.hostname.toLowerCase();
+    return host === wanted || host.endsWith(`.${wanted}`);
+  }
+  const target = SCHEME_REGEX.test(wanted) ? url.toLowerCase() : url.toLowerCase().replace(SCHEME_REGEX, '');
+  return new RegExp(`^${wanted.split('*').map(escapeRegExp).join('.*')}`).test(target);
+};
+
+export const findTemplate = (url: string, templates: NoteTemplate[]): NoteTemplate | undefined => {
+  return templates.find((template) => template.patterns.some((pattern) => matchesTemplatePattern(pattern, url)));
+};
+
+const sanitizeTemplate = (value: unknown): NoteTemplate | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Partial<NoteTemplate>;
+  if (typeof raw.body !== 'string') return null;
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : uuidv4(),
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Untitled template',
+    title: typeof raw.title === 'string' ? raw.title : '',
+    body: raw.body,
+    patterns: Array.isArray(raw.patterns)
+      ? raw.patterns.filter((p): p is string => typeof p === 'string' && p.trim() !== '').map((p) => p.trim())
+      : [],
+  };
+};
+
+export const sanitizeTemplateSettings = (value: unknown): TemplateSettings => {
+  if (!value || typeof value !== 'object') return DEFAULT_TEMPLATE_SETTINGS;
+  const raw = value as Partial<TemplateSettings>;
+  const templates = Array.isArray(raw.templates)
+    ? raw.templates.map(sanitizeTemplate).filter((t): t is NoteTemplate => t !== null)
+    : DEFAULT_TEMPLATE_SETTINGS.templates;
+  return { templates };
+};
+
+export const getTemplateSettings = async (): Promise<TemplateSettings> => {
+  const result = await storageArea.get([TEMPLATE_SETTINGS_KEY]);
+  return sanitizeTemplateSettings(result[TEMPLATE_SETTINGS_KEY]);
+};
+
+export const saveTemplateSettings = async (settings: TemplateSettings): Promise<void> => {
+  await storageArea.set({ [TEMPLATE_SETTINGS_KEY]: sanitizeTemplateSettings(settings) });
+};
+
+// The template new notes for this page start from
+export const getTemplateForPage = async (url: string): Promise<NoteTemplate> => {
+  const { templates } = await getTemplateSettings();
+  return findTemplate(url, templates) || BUILTIN_TEMPLATE;
+};
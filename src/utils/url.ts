@@ -0,0 +1,100 @@
+import type { UrlNormalizationSettings, UrlSiteRule } from '../types';
+
+export const URL_SETTINGS_KEY = 'urlNormalization';
+
+export const DEFAULT_URL_SETTINGS: UrlNormalizationSettings = {
+  stripParams: [
+    'utm_*', 'fbclid', 'gclid', 'dclid', 'msclkid', 'mc_cid', 'mc_eid', 'igshid',
+    '_ga', '_gl', 'ref_src', 'yclid', 'jsessionid', 'phpsessid', 'sid', 'sessionid',
+  ],
+  siteRules: [
+    { host: 'youtube.com', keepParams: ['v', 'list'] },
+    { host: 'google.com', keepParams: ['q'] },
+  ],
+  ignoreHash: true,
+  ignoreTrailingSlash: true,
+};
+
+const matchesParam = (name: string, pattern: string) => {
+  const lowerName = name.toLowerCase();
+  const lowerPattern = pattern.toLowerCase();
+  if (lowerPattern.endsWith('*')) {
+    return lowerName.startsWith(lowerPattern.slice(0, -1));
+  }
+  return lowerName === lowerPattern;
+};
+
+const findSiteRule = (hostname: string, rules: UrlSiteRule[]): UrlSiteRule | undefined => {
+  const host = hostname.toLowerCase();
+  // The most specific host wins, so `music.youtube.com` can override `youtube.com`
+  return rules
+    .filter(rule => {
+      const ruleHost = rule.host.trim().toLowerCase();
+      return ruleHost !== '' && (host === ruleHost || host.endsWith(`.${ruleHost}`));
+    })
+    .sort((a, b) => b.host.length - a.host.length)[0];
+};
+
+// Reduces a URL to the parts that identify the page, so tracking params,
+// session IDs, fragments and trailing slashes don't split one page into many.
+export const normalizeUrl = (url: string, settings: UrlNormalizationSettings = DEFAULT_URL_SETTINGS): string => {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return url;
+  }
+
+  // Path parameters such as `;jsessionid=...`
+  urlObj.pathname = urlObj.pathname.replace(/;[^/]*/g, '');
+
+  const siteRule = findSiteRule(urlObj.hostname, settings.siteRules);
+  const params = [...urlObj.searchParams.entries()]
+    .filter(([name]) => {
+      if (siteRule) return siteRule.keepParams.some(p => matchesParam(name, p));
+      return !settings.stripParams.some(p => matchesParam(name, p));
+    })
+    .sort(([a], [b]) => a.localeCompare(b));
+  urlObj.search = new URLSearchParams(params).toString();
+
+  // Hash-based routers (`#/path`, `#!/path`) use the fragment as the page address
+  const isHashRoute = /^#!?\//.test(urlObj.hash);
+  if (settings.ignoreHash && !isHashRoute) {
+    urlObj.hash = '';
+  }
+
+  if (settings.ignoreTrailingSlash && urlObj.pathname.length > 1 && urlObj.pathname.endsWith('/')) {
+    urlObj.pathname = urlObj.pathname.replace(/\/+$/, '');
+  }
+
+  return urlObj.toString();
+};
+
+export const isSameUrl = (a: string, b: string, settings: UrlNormalizationSettings = DEFAULT_URL_SETTINGS): boolean => {
+  return normalizeUrl(a, settings) === normalizeUrl(b, settings);
+};
+
+export const sanitizeUrlSettings = (value: unknown): UrlNormalizationSettings => {
+  if (!value || typeof value !== 'object') return DEFAULT_URL_SETTINGS;
+  const raw = value as Partial<UrlNormalizationSettings>;
+  return {
+    stripParams: Array.isArray(raw.stripParams) ? raw.stripParams.filter(p => typeof p === 'string') : DEFAULT_URL_SETTINGS.stripParams,
+    siteRules: Array.isArray(raw.siteRules)
+      ? raw.siteRules.filter(r => r && typeof r.host === 'string' && Array.isArray(r.keepParams))
+      : DEFAULT_URL_SETTINGS.siteRules,
+    ignoreHash: typeof raw.ignoreHash === 'boolean' ? raw.ignoreHash : DEFAULT_URL_SETTINGS.ignoreHash,
+    ignoreTrailingSlash: typeof raw.ignoreTrailingSlash === 'boolean' ? raw.ignoreTrailingSlash : DEFAULT_URL_SETTINGS.ignoreTrailingSlash,
+  };
+};
+
+export const getUrlSettings = async (): Promise<UrlNormalizationSettings> => {
+  if (typeof chrome === 'undefined' || !chrome.storage?.local) {
+    return DEFAULT_URL_SETTINGS;
+  }
+  const result = await chrome.storage.local.get(URL_SETTINGS_KEY);
+  return sanitizeUrlSettings(result[URL_SETTINGS_KEY]);
+};
+
+export const saveUrlSettings = async (settings: UrlNormalizationSettings): Promise<void> => {
+  await chrome.storage.local.set({ [URL_SETTINGS_KEY]: settings });
+};
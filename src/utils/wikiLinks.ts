@@ -0,0 +1,85 @@
+import type { CompletionContext, CompletionResult } from '@codemirror/autocomplete';
+import type { EditorView } from '@uiw/react-codemirror';
+import type { TokenizerAndRendererExtension } from 'marked';
+import type { Memo } from '../types';
+
+// `[[Note Title]]` links between notes, optionally `[[Note Title|shown text]]`.
+// Links point at titles, compared without regard to case or extra spaces.
+
+// Code is matched first so links inside it are skipped, like in the preview
+const WIKI_LINK_REGEX = /(```[\s\S]*?```|`[^`\n]*`)|\[\[([^[\]|\n]+)(?:\|([^[\]\n]+))?\]\]/g;
+const WIKI_LINK_START_REGEX = /^\[\[([^[\]|\n]+)(?:\|([^[\]\n]+))?\]\]/;
+
+const normalizeTitle = (title: string) => title.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const sameTitle = (a: string, b: string) => normalizeTitle(a) === normalizeTitle(b);
+
+// Titles with brackets or pipes can't be written inside a link
+export const isLinkableTitle = (title: string) => title.trim() !== '' && !/[[\]|\n]/.test(title);
+
+export const getWikiLinks = (content: string): string[] => {
+  return [...content.matchAll(WIKI_LINK_REGEX)].filter((match) => !match[1]).map((match) => match[2].trim());
+};
+
+export const linksTo = (content: string, title: string) => getWikiLinks(content).some((link) => sameTitle(link, title));
+
+// Several notes can share a title: one on the linking note's domain wins,
+// then the most recently edited
+export const resolveWikiLink = (title: string, memos: Memo[], from?: Memo | null): Memo | undefined => {
+  const matches = memos.filter((memo) => !memo.deletedAt && sameTitle(memo.title, title));
+  return matches.find((memo) => from && memo.domain === from.domain)
+    ?? matches.sort((a, b) => b.updatedAt - a.updatedAt)[0];
+};
+
+export const getBacklinks = (memo: Memo, memos: Memo[]): Memo[] => {
+  if (!memo.title.trim()) return [];
+  return memos
+    .filter((other) => other.id !== memo.id && !other.deletedAt && linksTo(other.content, memo.title))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Points links at `oldTitle` to `newTitle`, keeping any shown text
+export const renameWikiLinks = (content: string, oldTitle: string, newTitle: string): string => {
+  return content.replace(WIKI_LINK_REGEX, (match, code: string | undefined, target: string, label: string | undefined) => (
+    !code && sameTitle(target, oldTitle) ? `[[${newTitle.trim()}${label !== undefined ? `|${label}` : ''}]]` : match
+  ));
+};
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Renders links as `<a data-wiki-link="Title">`; the preview handles the clicks.
+// As an inline token, it leaves code spans and code blocks alone.
+export const wikiLinkMarkedExtension: TokenizerAndRendererExtension = {
+  name: 'wikiLink',
+  level: 'inline',
+  start: (src: string) => src.indexOf('[['),
+  tokenizer: (src: string) => {
+    const match = src.match(WIKI_LINK_START_REGEX);
+    if (!match) return undefined;
+    return { type: 'wikiLink', raw: match[0], target: match[1].trim(), text: (match[2] ?? match[1]).trim() };
+  },
+  renderer: (token) => `<a href="#" class="wiki-link" data-wiki-link="${escapeHtml(token.target)}">${escapeHtml(token.text)}</a>`,
+};
+
+// Suggests note titles after `[[` in the editor
+export const wikiLinkCompletions = (getTitles: () => string[]) => (context: CompletionContext): CompletionResult | null => {
+  const typed = context.matchBefore(/\[\[[^[\]|\n]*/);
+  if (!typed) return null;
+  return {
+    from: typed.from + 2,
+    options: getTitles().map((title) => ({
+      label: title,
+      type: 'text',
+      apply: (view: EditorView, _completion: unknown, from: number, to: number) => {
+        // Close the link unless the brackets are already there
+        const insert = view.state.sliceDoc(to, to + 2) === ']]' ? title : `${title}]]`;
+        view.dispatch({ changes: { from, to, insert }, selection: { anchor: from + title.length + 2 } });
+      },
+    })),
+    validFor: /^[^[\]|\n]*$/,
+  };
+};
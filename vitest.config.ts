@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config'
+
+// Kept apart from vite.config.ts so the extension build plugins don't run in tests
+export default defineConfig({
+  test: {
+    setupFiles: ['./src/test/setup.ts'],
+  },
+})